@@ -0,0 +1,304 @@
+import {
+  type AgentContext,
+  type DcqlQuery,
+  JwsService,
+  JwtPayload,
+  type Kms,
+  type X509Certificate,
+} from '@credo-ts/core'
+import z from 'zod'
+import { RegistrationCertificateCreationError } from './error'
+import { toNumericDate } from './timeContext'
+import type { StatusListReference } from './tokenStatusList'
+import {
+  type EtsiRegistrationCertificatePayload,
+  type FunkeRegistrationCertificatePayload,
+  zEtsiRegistrationCertificatePayload,
+  zFunkeRegistrationCertificatePayload,
+} from './validation/z-registration-certificate'
+
+export interface CreateRegistrationCertificatePayloadOptions {
+  /**
+   * The subject of the access certificate of the relying party, e.g. `C=DE,CN=Example Verifier`
+   */
+  subject: string
+
+  /**
+   * The credentials the relying party is registered to request. Only the credential queries are used, as
+   * SPRIN-D registration certificates can not contain `credential_sets`.
+   */
+  dcqlQuery?: Pick<DcqlQuery, 'credentials'>
+
+  contact: {
+    website: string
+    email: string
+    phone: string
+  }
+
+  /**
+   * The localized names of the services of the relying party
+   */
+  services: Array<{ lang: string; name: string }>
+
+  /**
+   * The localized purposes for which the relying party requests the credentials
+   */
+  purposes?: Array<{ lang: string; name: string }>
+
+  entitlements?: Array<string>
+  publicBody?: boolean
+  privacyPolicy: string
+
+  /**
+   * The attestations an issuer is registered to provide, e.g. `{ format: 'dc+sd-jwt', meta: { vct_values: [...] } }`
+   */
+  providedAttestations?: Array<{ format: string; meta?: Record<string, unknown> }>
+
+  /**
+   * @default new Date()
+   */
+  issuedAt?: Date
+  notBefore?: Date
+  expiresAt?: Date
+
+  /**
+   * Reference to the status list entry of the registration certificate
+   */
+  status?: StatusListReference
+}
+
+export interface CreateEtsiRegistrationCertificatePayloadOptions {
+  /**
+   * The identifier of the wallet-relying party, either the subject of its access certificate, e.g.
+   * `C=DE,CN=Example Verifier`, or a semantic identifier according to ETSI EN 319 412-1, e.g. `VATDE-123456789`
+   */
+  subject: string
+  name: string
+
+  /**
+   * The ISO 3166-1 alpha-2 country code of the wallet-relying party
+   */
+  country?: string
+
+  /**
+   * The credentials the relying party is registered to request. The `credential_sets` describe the combinations
+   * of credentials that may be requested together.
+   */
+  dcqlQuery?: Pick<DcqlQuery, 'credentials' | 'credential_sets'>
+
+  /**
+   * The localized descriptions of the service of the relying party
+   */
+  serviceDescriptions: Array<{ lang: string; value: string }>
+
+  /**
+   * The localized purposes for which the relying party requests the credentials
+   */
+  purposes?: Array<{ lang: string; value: string }>
+  intendedUseId?: string
+
+  entitlements: Array<string>
+  publicBody?: boolean
+  privacyPolicy: string
+  infoUri?: string
+  supportUri?: string
+  registryUri?: string
+  supervisoryAuthority?: { uri?: string; email?: string; phone?: string }
+
+  /**
+   * The intermediary that signs the authorization requests on behalf of the relying party
+   */
+  intermediary?: { subject: string; name?: string }
+
+  /**
+   * The attestations an issuer is registered to provide, e.g. `{ format: 'dc+sd-jwt', meta: { vct_values: [...] } }`
+   */
+  providedAttestations?: Array<{ format: string; meta?: Record<string, unknown> }>
+
+  /**
+   * @default new Date()
+   */
+  issuedAt?: Date
+  notBefore?: Date
+  expiresAt?: Date
+
+  /**
+   * Reference to the status list entry of the registration certificate
+   */
+  status?: StatusListReference
+}
+
+export interface RegistrationCertificateSigner {
+  /**
+   * The id of the key, managed by the key management service of the agent, that belongs to the first certificate
+   */
+  keyId: string
+
+  /**
+   * The certificate chain of the registrar that is included in the `x5c` header, starting with the signing certificate
+   */
+  x5c: Array<X509Certificate>
+
+  /**
+   * @default the signature algorithm of the key of the signing certificate
+   */
+  alg?: Kms.KnownJwaSignatureAlgorithm
+}
+
+export interface CreateRegistrationCertificateOptions extends CreateRegistrationCertificatePayloadOptions {
+  signer: RegistrationCertificateSigner
+}
+
+export interface CreateEtsiRegistrationCertificateOptions extends CreateEtsiRegistrationCertificatePayloadOptions {
+  signer: RegistrationCertificateSigner
+}
+
+const parseRegistrationCertificatePayload = <Payload>(schema: z.ZodType<Payload>, payload: unknown): Payload => {
+  const result = schema.safeParse(payload)
+  if (!result.success) {
+    throw new RegistrationCertificateCreationError(
+      `Registration certificate payload is invalid. ${z.prettifyError(result.error)}`
+    )
+  }
+
+  return result.data
+}
+
+const signRegistrationCertificate = async (
+  agentContext: AgentContext,
+  signer: RegistrationCertificateSigner,
+  typ: 'rc-wrp+jwt' | 'rc-rp+jwt',
+  payload: Record<string, unknown>
+) => {
+  const [signingCertificate] = signer.x5c
+  if (!signingCertificate) {
+    throw new RegistrationCertificateCreationError('The x5c of the signer must contain at least one certificate')
+  }
+
+  return agentContext.dependencyManager.resolve(JwsService).createJwsCompact(agentContext, {
+    keyId: signer.keyId,
+    payload: JwtPayload.fromJson(payload),
+    protectedHeaderOptions: {
+      alg: signer.alg ?? signingCertificate.publicJwk.signatureAlgorithm,
+      typ,
+      x5c: signer.x5c.map((certificate) => certificate.toString('base64')),
+    },
+  })
+}
+
+/**
+ * Creates the payload of a registration certificate according to the SPRIN-D architecture (`rc-rp+jwt`), and
+ * validates it with the same schema that is used when verifying registration certificates.
+ */
+export function createRegistrationCertificatePayload({
+  subject,
+  dcqlQuery,
+  contact,
+  services,
+  purposes,
+  entitlements = [],
+  publicBody,
+  privacyPolicy,
+  providedAttestations,
+  issuedAt = new Date(),
+  notBefore,
+  expiresAt,
+  status,
+}: CreateRegistrationCertificatePayloadOptions): FunkeRegistrationCertificatePayload {
+  return parseRegistrationCertificatePayload(zFunkeRegistrationCertificatePayload, {
+    sub: subject,
+    // The registration certificate describes what may be requested, so the queries have no `id`
+    credentials: dcqlQuery?.credentials.map(({ id, ...credentialQuery }) => credentialQuery) ?? [],
+    contact: { website: contact.website, 'e-mail': contact.email, phone: contact.phone },
+    services,
+    purpose: purposes,
+    entitlements,
+    public_body: publicBody,
+    privacy_policy: privacyPolicy,
+    provided_attestations: providedAttestations,
+    iat: toNumericDate(issuedAt),
+    nbf: notBefore ? toNumericDate(notBefore) : undefined,
+    exp: expiresAt ? toNumericDate(expiresAt) : undefined,
+    status: status ? { status_list: status } : undefined,
+  })
+}
+
+/**
+ * Creates the payload of a registration certificate according to ETSI TS 119 475 (`rc-wrp+jwt`), and validates
+ * it with the same schema that is used when verifying registration certificates.
+ */
+export function createEtsiRegistrationCertificatePayload({
+  subject,
+  name,
+  country,
+  dcqlQuery,
+  serviceDescriptions,
+  purposes,
+  intendedUseId,
+  entitlements,
+  publicBody,
+  privacyPolicy,
+  infoUri,
+  supportUri,
+  registryUri,
+  supervisoryAuthority,
+  intermediary,
+  providedAttestations,
+  issuedAt = new Date(),
+  notBefore,
+  expiresAt,
+  status,
+}: CreateEtsiRegistrationCertificatePayloadOptions): EtsiRegistrationCertificatePayload {
+  return parseRegistrationCertificatePayload(zEtsiRegistrationCertificatePayload, {
+    sub: subject,
+    name,
+    country,
+    registry_uri: registryUri,
+    srv_description: serviceDescriptions,
+    entitlements,
+    public_body: publicBody,
+    privacy_policy: privacyPolicy,
+    info_uri: infoUri,
+    support_uri: supportUri,
+    supervisory_authority: supervisoryAuthority,
+    intermediary: intermediary ? { sub: intermediary.subject, name: intermediary.name } : undefined,
+    intended_use_id: intendedUseId,
+    purpose: purposes,
+    // The `id` of the credential queries is only needed to reference them from the `credential_sets`
+    credentials: dcqlQuery?.credentials.map(({ id, ...credentialQuery }) =>
+      dcqlQuery.credential_sets ? { id, ...credentialQuery } : credentialQuery
+    ),
+    credential_sets: dcqlQuery?.credential_sets,
+    provides_attestations: providedAttestations,
+    iat: toNumericDate(issuedAt),
+    nbf: notBefore ? toNumericDate(notBefore) : undefined,
+    exp: expiresAt ? toNumericDate(expiresAt) : undefined,
+    status: status ? { status_list: status } : undefined,
+  })
+}
+
+/**
+ * Creates a registration certificate according to the SPRIN-D architecture (`rc-rp+jwt`), signed by the
+ * registrar with the certificate chain in the `x5c` header.
+ */
+export async function createRegistrationCertificate(
+  agentContext: AgentContext,
+  { signer, ...options }: CreateRegistrationCertificateOptions
+): Promise<string> {
+  const payload = createRegistrationCertificatePayload(options)
+
+  return signRegistrationCertificate(agentContext, signer, 'rc-rp+jwt', payload)
+}
+
+/**
+ * Creates a registration certificate according to ETSI TS 119 475 (`rc-wrp+jwt`), signed by the registrar
+ * with the certificate chain in the `x5c` header.
+ */
+export async function createEtsiRegistrationCertificate(
+  agentContext: AgentContext,
+  { signer, ...options }: CreateEtsiRegistrationCertificateOptions
+): Promise<string> {
+  const payload = createEtsiRegistrationCertificatePayload(options)
+
+  return signRegistrationCertificate(agentContext, signer, 'rc-wrp+jwt', payload)
+}
@@ -0,0 +1,213 @@
+import { X509Certificate } from '@credo-ts/core'
+import z from 'zod'
+import { isRelyingPartySubjectEqual, type RelyingPartyIdentity } from './relyingPartyIdentity'
+import {
+  isCredentialQueryReferenced,
+  type VerifierAttestationVerificationResult,
+} from './verifyOpenid4VpAuthorizationRequest'
+import { getX509CertificateThumbprint } from './x509CertificateChain'
+
+const isEncodedCertificate = (certificate: string) => {
+  try {
+    X509Certificate.fromEncodedCertificate(certificate)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Embedded disclosure policy according to the EUDI Architecture and Reference Framework, as included by the
+// issuer in the `disclosure_policy` of the type metadata. Every constraint that is present must be met.
+export const zDisclosurePolicy = z
+  .object({
+    // Identifiers of the relying parties that may receive the attestation, as used in the `sub` of their registration certificate
+    authorized_relying_parties: z.array(z.string()).nonempty().optional(),
+    // The relying party must hold at least one of these entitlements
+    authorized_entitlements: z.array(z.string()).nonempty().optional(),
+    // The access certificate of the relying party must chain to one of these certificates (base64 or PEM)
+    root_certificates: z
+      .array(z.string().refine(isEncodedCertificate, 'Must be a base64 or PEM encoded certificate'))
+      .nonempty()
+      .optional(),
+  })
+  .loose()
+
+export type DisclosurePolicy = z.infer<typeof zDisclosurePolicy>
+
+const zTypeMetadataWithDisclosurePolicy = z.object({ disclosure_policy: z.unknown().optional() }).loose()
+
+export type DisclosurePolicyDecision = 'allow' | 'deny' | 'warn'
+
+export type DisclosurePolicyReasonCode =
+  | 'invalid_disclosure_policy'
+  | 'relying_party_unverified'
+  | 'registration_certificate_untrusted'
+  | 'relying_party_not_authorized'
+  | 'entitlement_missing'
+  | 'root_of_trust_mismatch'
+
+export interface DisclosurePolicyReason {
+  code: DisclosurePolicyReasonCode
+  message: string
+}
+
+export interface DisclosurePolicyCredential {
+  /**
+   * Identifier of the candidate credential, returned as is in the evaluation
+   */
+  id: string
+
+  /**
+   * The type metadata of the credential, e.g. the SD-JWT VC type metadata, that may contain a `disclosure_policy`
+   */
+  typeMetadata?: object
+
+  /**
+   * The id of the credential query in the DCQL query of the request that the credential is a candidate for. The
+   * policy is evaluated against the registration certificate of the verifier attestation that applies to this query.
+   */
+  credentialQueryId?: string
+}
+
+export interface DisclosurePolicyEvaluation {
+  id: string
+
+  /**
+   * - `allow`: the credential has no disclosure policy, or the relying party meets it
+   * - `deny`: the relying party does not meet the disclosure policy
+   * - `warn`: the disclosure policy can not be evaluated, or the relying party is not trusted, which should be shown to the user
+   */
+  decision: DisclosurePolicyDecision
+  reasons: Array<DisclosurePolicyReason>
+}
+
+type VerifiedResult = VerifierAttestationVerificationResult & { relyingParty: RelyingPartyIdentity }
+
+const evaluateDisclosurePolicy = (policy: DisclosurePolicy, result: VerifiedResult) => {
+  const reasons: Array<DisclosurePolicyReason> = []
+
+  if (
+    policy.authorized_relying_parties &&
+    !policy.authorized_relying_parties.some((subject) =>
+      isRelyingPartySubjectEqual(subject, result.relyingParty.subject)
+    )
+  ) {
+    reasons.push({
+      code: 'relying_party_not_authorized',
+      message: `Relying party '${result.relyingParty.subject}' is not authorized to receive the credential`,
+    })
+  }
+
+  const entitlements: Array<unknown> = result.registrationCertificate?.payload.entitlements ?? []
+  if (policy.authorized_entitlements && !policy.authorized_entitlements.some((e) => entitlements.includes(e))) {
+    reasons.push({
+      code: 'entitlement_missing',
+      message: `Relying party does not hold one of the entitlements: ${policy.authorized_entitlements.join(', ')}`,
+    })
+  }
+
+  // The access certificate chain starts with the trust anchor
+  const trustAnchor = result.accessCertificateChain?.[0]
+  if (
+    policy.root_certificates &&
+    (!trustAnchor ||
+      !policy.root_certificates.some(
+        (certificate) => getX509CertificateThumbprint(certificate) === getX509CertificateThumbprint(trustAnchor)
+      ))
+  ) {
+    reasons.push({
+      code: 'root_of_trust_mismatch',
+      message: 'The access certificate of the relying party does not chain to one of the root certificates',
+    })
+  }
+
+  return reasons
+}
+
+/**
+ * Evaluates the embedded disclosure policies of the candidate credentials against the relying party, as verified
+ * by `verifyOpenid4VpAuthorizationRequest` in the `verifierAttestations` of its result. When the request is signed by an intermediary, the policy is evaluated
+ * against the intermediated relying party, which receives the credentials.
+ *
+ * Only registration certificates that are valid and for which no errors were found are used. When a verifier
+ * attestation only applies to the credential queries in its `credential_ids`, it is only used for the candidate
+ * credentials of these credential queries.
+ */
+export function evaluateDisclosurePolicies(
+  results: Array<VerifierAttestationVerificationResult> | undefined,
+  credentials: Array<DisclosurePolicyCredential>
+): Array<DisclosurePolicyEvaluation> {
+  const verifiedResults = (results ?? []).filter(
+    (result): result is VerifiedResult =>
+      !!result.relyingParty &&
+      !!result.registrationCertificate &&
+      (result.isValidAndTrusted || result.isValidButUntrusted) &&
+      result.errors.length === 0
+  )
+  // The registration certificate of an intermediary does not apply to the requested credentials
+  const applicableResults = verifiedResults.filter(
+    (result) =>
+      !verifiedResults.some(
+        ({ intermediary }) => intermediary?.verifierAttestationIndex === result.verifierAttestationIndex
+      )
+  )
+  const getResult = (credentialQueryId?: string) => {
+    const candidates = credentialQueryId
+      ? applicableResults.filter((result) => isCredentialQueryReferenced(result, credentialQueryId))
+      : applicableResults
+
+    return candidates.find((r) => r.isValidAndTrusted) ?? candidates[0]
+  }
+
+  return credentials.map(({ id, typeMetadata, credentialQueryId }) => {
+    const disclosurePolicy = zTypeMetadataWithDisclosurePolicy.safeParse(typeMetadata ?? {}).data?.disclosure_policy
+    if (disclosurePolicy === undefined) return { id, decision: 'allow', reasons: [] }
+
+    const policy = zDisclosurePolicy.safeParse(disclosurePolicy)
+    if (!policy.success) {
+      return {
+        id,
+        decision: 'warn',
+        reasons: [
+          {
+            code: 'invalid_disclosure_policy',
+            message: `Disclosure policy is invalid. ${z.prettifyError(policy.error)}`,
+          },
+        ],
+      }
+    }
+
+    const result = getResult(credentialQueryId)
+    if (!result) {
+      return {
+        id,
+        decision: 'warn',
+        reasons: [
+          {
+            code: 'relying_party_unverified',
+            message:
+              'The credential has a disclosure policy, but the relying party has no valid registration certificate',
+          },
+        ],
+      }
+    }
+
+    const reasons = evaluateDisclosurePolicy(policy.data, result)
+    if (reasons.length > 0) return { id, decision: 'deny', reasons }
+
+    if (!result.isValidAndTrusted) {
+      return {
+        id,
+        decision: 'warn',
+        reasons: [
+          {
+            code: 'registration_certificate_untrusted',
+            message: 'The relying party meets the disclosure policy, but its registration certificate is not trusted',
+          },
+        ],
+      }
+    }
+
+    return { id, decision: 'allow', reasons: [] }
+  })
+}
@@ -0,0 +1,142 @@
+import type { DcqlQuery } from '@credo-ts/core'
+import type { EntitlementPolicyErrorCode } from './error'
+
+const ETSI_ENTITLEMENT_PREFIX = 'https://uri.etsi.org/19475/Entitlement'
+
+/**
+ * Entitlements of wallet-relying parties according to ETSI TS 119 475
+ */
+export const EudiEntitlement = {
+  ServiceProvider: `${ETSI_ENTITLEMENT_PREFIX}/Service_Provider`,
+  QeaaProvider: `${ETSI_ENTITLEMENT_PREFIX}/QEAA_Provider`,
+  NonQeaaProvider: `${ETSI_ENTITLEMENT_PREFIX}/Non_Q_EAA_Provider`,
+  PubEaaProvider: `${ETSI_ENTITLEMENT_PREFIX}/PUB_EAA_Provider`,
+  PidProvider: `${ETSI_ENTITLEMENT_PREFIX}/PID_Provider`,
+  QCertForESealProvider: `${ETSI_ENTITLEMENT_PREFIX}/QCert_for_ESeal_Provider`,
+  QCertForESigProvider: `${ETSI_ENTITLEMENT_PREFIX}/QCert_for_ESig_Provider`,
+  RQSealCDsProvider: `${ETSI_ENTITLEMENT_PREFIX}/rQSealCDs_Provider`,
+  RQSigCDsProvider: `${ETSI_ENTITLEMENT_PREFIX}/rQSigCDs_Provider`,
+  ESigESealCreationProvider: `${ETSI_ENTITLEMENT_PREFIX}/ESig_ESeal_Creation_Provider`,
+} as const
+
+export type EudiEntitlement = (typeof EudiEntitlement)[keyof typeof EudiEntitlement]
+
+/**
+ * Restricts requesting a credential type to relying parties with specific entitlements, or to public bodies
+ */
+export interface EntitlementRestriction {
+  /**
+   * The `vct` values of the SD-JWT VCs the restriction applies to
+   */
+  vctValues?: Array<string>
+
+  /**
+   * The doctypes of the mdocs the restriction applies to
+   */
+  doctypeValues?: Array<string>
+
+  /**
+   * The relying party must hold at least one of these entitlements
+   */
+  entitlements?: Array<string>
+
+  /**
+   * Whether only public bodies may request the credential
+   */
+  publicBody?: boolean
+}
+
+export interface EntitlementPolicy {
+  /**
+   * The registry of known entitlements. Relying parties with an entitlement that is not in the registry are rejected.
+   *
+   * @default Object.values(EudiEntitlement)
+   */
+  knownEntitlements?: Array<string>
+
+  /**
+   * Restrictions on which relying parties may request which credential types. A restriction without
+   * `vctValues` and `doctypeValues` applies to every requested credential.
+   */
+  restrictions?: Array<EntitlementRestriction>
+}
+
+export interface EntitlementPolicyViolation {
+  code: EntitlementPolicyErrorCode
+  message: string
+  details: Record<string, unknown>
+}
+
+export interface EvaluateEntitlementPolicyOptions {
+  /**
+   * The entitlements of the relying party, as registered in the registration certificate
+   */
+  entitlements: Array<string>
+
+  /**
+   * Whether the relying party is a public body, as registered in the registration certificate
+   */
+  publicBody: boolean
+
+  /**
+   * The credentials requested by the relying party
+   */
+  query: DcqlQuery
+}
+
+const appliesTo = (restriction: EntitlementRestriction, credentialQuery: DcqlQuery['credentials'][number]) => {
+  if (!restriction.vctValues && !restriction.doctypeValues) return true
+
+  const meta = credentialQuery.meta as { vct_values?: Array<string>; doctype_value?: string } | undefined
+  return (
+    !!meta?.vct_values?.some((vct) => restriction.vctValues?.includes(vct)) ||
+    (!!meta?.doctype_value && !!restriction.doctypeValues?.includes(meta.doctype_value))
+  )
+}
+
+/**
+ * Evaluates the entitlements and public body status of a relying party against the entitlement policy,
+ * for the credentials it requests.
+ *
+ * @returns the violations of the policy, empty if the relying party complies
+ */
+export function evaluateEntitlementPolicy(
+  { entitlements, publicBody, query }: EvaluateEntitlementPolicyOptions,
+  { knownEntitlements = Object.values(EudiEntitlement), restrictions = [] }: EntitlementPolicy
+): Array<EntitlementPolicyViolation> {
+  const violations: Array<EntitlementPolicyViolation> = []
+
+  for (const entitlement of entitlements) {
+    if (!knownEntitlements.includes(entitlement)) {
+      violations.push({
+        code: 'unknown_entitlement',
+        message: `Entitlement '${entitlement}' of the relying party is not a known entitlement`,
+        details: { entitlement },
+      })
+    }
+  }
+
+  for (const credentialQuery of query.credentials) {
+    for (const restriction of restrictions) {
+      if (!appliesTo(restriction, credentialQuery)) continue
+
+      if (restriction.entitlements && !restriction.entitlements.some((e) => entitlements.includes(e))) {
+        violations.push({
+          code: 'entitlement_required',
+          message: `Credential query '${credentialQuery.id}' may only be requested by relying parties with one of the entitlements: ${restriction.entitlements.join(', ')}`,
+          details: { credentialQueryId: credentialQuery.id, requiredEntitlements: restriction.entitlements },
+        })
+      }
+
+      if (restriction.publicBody && !publicBody) {
+        violations.push({
+          code: 'public_body_required',
+          message: `Credential query '${credentialQuery.id}' may only be requested by public bodies`,
+          details: { credentialQueryId: credentialQuery.id },
+        })
+      }
+    }
+  }
+
+  return violations
+}
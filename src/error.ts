@@ -1,6 +1,6 @@
 export class EudiWalletExtensionsError extends Error {
-  constructor(message: string) {
-    super(message)
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
     this.name = 'EudiWalletExtensionsError'
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, EudiWalletExtensionsError)
@@ -17,3 +17,338 @@ export class Ts12IntegrityError extends EudiWalletExtensionsError {
     }
   }
 }
+
+export class TokenStatusListError extends EudiWalletExtensionsError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'TokenStatusListError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, TokenStatusListError)
+    }
+  }
+}
+
+export class X509CertificateChainError extends EudiWalletExtensionsError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'X509CertificateChainError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, X509CertificateChainError)
+    }
+  }
+}
+
+export class VerifierAttestationResolverError extends EudiWalletExtensionsError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'VerifierAttestationResolverError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, VerifierAttestationResolverError)
+    }
+  }
+}
+
+export class PresentationExchangeConversionError extends EudiWalletExtensionsError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'PresentationExchangeConversionError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, PresentationExchangeConversionError)
+    }
+  }
+}
+
+export class TrustedListError extends EudiWalletExtensionsError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'TrustedListError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, TrustedListError)
+    }
+  }
+}
+
+export class RegistrationCertificateCreationError extends EudiWalletExtensionsError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'RegistrationCertificateCreationError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, RegistrationCertificateCreationError)
+    }
+  }
+}
+
+/**
+ * A credential that requires a registration certificate is requested without a valid registration certificate
+ */
+export class RegistrationCertificateRequiredError extends EudiWalletExtensionsError {
+  public readonly code: RegistrationCertificateRequiredErrorCode
+  public readonly details: Record<string, unknown>
+
+  constructor(
+    code: RegistrationCertificateRequiredErrorCode,
+    message: string,
+    options: Omit<VerifierAttestationErrorOptions, 'verifierAttestationIndex'> = {}
+  ) {
+    super(message, { cause: options.cause })
+    this.name = 'RegistrationCertificateRequiredError'
+    this.code = code
+    this.details = options.details ?? {}
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, RegistrationCertificateRequiredError)
+    }
+  }
+}
+
+export type UnsupportedVerifierAttestationErrorCode = 'unsupported_format' | 'unsupported_data' | 'unsupported_typ'
+export type InvalidRegistrationCertificateErrorCode =
+  | 'invalid_jwt'
+  | 'invalid_header'
+  | 'invalid_payload'
+  | 'issued_in_future'
+  | 'not_yet_valid'
+  | 'expired'
+  | 'certificate_unresolvable'
+  | 'certificate_missing'
+  | 'thumbprint_mismatch'
+  | 'untrusted_signature'
+  | 'invalid_signature'
+  | 'invalid_certificate_chain'
+export type UnsupportedAuthorizationRequestErrorCode =
+  | 'unsigned_request'
+  | 'unsupported_request_signer'
+  | 'dcql_required'
+  | 'presentation_exchange_not_supported'
+export type RelyingPartyMismatchErrorCode = 'subject_mismatch' | 'client_id_mismatch'
+export type RegistrationScopeExceededErrorCode =
+  | 'dcql_not_subset'
+  | 'presentation_definition_not_subset'
+  | 'attestation_not_provided'
+export type RegistrationCertificateStatusErrorCode = 'status_invalid' | 'status_suspended' | 'status_unverifiable'
+export type InvalidCertificateChainErrorCode = 'invalid_access_certificate_chain'
+export type UnresolvableVerifierAttestationErrorCode = 'unresolvable_reference'
+export type EntitlementPolicyErrorCode = 'unknown_entitlement' | 'entitlement_required' | 'public_body_required'
+export type UnsupportedCredentialOfferErrorCode = 'unsigned_issuer_metadata' | 'unsupported_issuer_metadata_signer'
+export type RegistrationCertificateRequiredErrorCode = 'registration_certificate_required'
+
+export type VerifierAttestationErrorCode =
+  | UnsupportedVerifierAttestationErrorCode
+  | InvalidRegistrationCertificateErrorCode
+  | UnsupportedAuthorizationRequestErrorCode
+  | RelyingPartyMismatchErrorCode
+  | RegistrationScopeExceededErrorCode
+  | RegistrationCertificateStatusErrorCode
+  | InvalidCertificateChainErrorCode
+  | UnresolvableVerifierAttestationErrorCode
+  | EntitlementPolicyErrorCode
+
+export interface VerifierAttestationErrorOptions extends ErrorOptions {
+  /**
+   * Index of the entry in the `verifier_info`, or `verifier_attestations`, of the authorization request that
+   * failed verification. Not present for the registration certificate of a credential issuer.
+   */
+  verifierAttestationIndex?: number
+
+  /**
+   * Structured details about the failure, e.g. the values that were compared
+   */
+  details?: Record<string, unknown>
+}
+
+/**
+ * Base class for all errors that occur while verifying a verifier attestation of an authorization request.
+ *
+ * The `code` is stable and can be used to distinguish the errors, the `message` is meant for developers only.
+ */
+export class VerifierAttestationError extends EudiWalletExtensionsError {
+  public readonly code: VerifierAttestationErrorCode
+  public readonly verifierAttestationIndex?: number
+  public readonly details: Record<string, unknown>
+
+  constructor(code: VerifierAttestationErrorCode, message: string, options: VerifierAttestationErrorOptions) {
+    super(message, { cause: options.cause })
+    this.name = 'VerifierAttestationError'
+    this.code = code
+    this.verifierAttestationIndex = options.verifierAttestationIndex
+    this.details = options.details ?? {}
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, VerifierAttestationError)
+    }
+  }
+}
+
+/**
+ * The verifier attestation uses a format, encoding or type that is not supported
+ */
+export class UnsupportedVerifierAttestationError extends VerifierAttestationError {
+  declare readonly code: UnsupportedVerifierAttestationErrorCode
+
+  constructor(
+    code: UnsupportedVerifierAttestationErrorCode,
+    message: string,
+    options: VerifierAttestationErrorOptions
+  ) {
+    super(code, message, options)
+    this.name = 'UnsupportedVerifierAttestationError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, UnsupportedVerifierAttestationError)
+    }
+  }
+}
+
+/**
+ * The registration certificate itself is malformed or not (yet) valid
+ */
+export class InvalidRegistrationCertificateError extends VerifierAttestationError {
+  declare readonly code: InvalidRegistrationCertificateErrorCode
+
+  constructor(
+    code: InvalidRegistrationCertificateErrorCode,
+    message: string,
+    options: VerifierAttestationErrorOptions
+  ) {
+    super(code, message, options)
+    this.name = 'InvalidRegistrationCertificateError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, InvalidRegistrationCertificateError)
+    }
+  }
+}
+
+/**
+ * The authorization request can not be verified against a registration certificate
+ */
+export class UnsupportedAuthorizationRequestError extends VerifierAttestationError {
+  declare readonly code: UnsupportedAuthorizationRequestErrorCode
+
+  constructor(
+    code: UnsupportedAuthorizationRequestErrorCode,
+    message: string,
+    options: VerifierAttestationErrorOptions
+  ) {
+    super(code, message, options)
+    this.name = 'UnsupportedAuthorizationRequestError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, UnsupportedAuthorizationRequestError)
+    }
+  }
+}
+
+/**
+ * The relying party that signed the authorization request is not the relying party of the registration certificate
+ */
+export class RelyingPartyMismatchError extends VerifierAttestationError {
+  declare readonly code: RelyingPartyMismatchErrorCode
+
+  constructor(code: RelyingPartyMismatchErrorCode, message: string, options: VerifierAttestationErrorOptions) {
+    super(code, message, options)
+    this.name = 'RelyingPartyMismatchError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, RelyingPartyMismatchError)
+    }
+  }
+}
+
+/**
+ * The authorization request asks for more than the relying party is registered for, or the credential
+ * offer contains attestations the issuer is not registered to provide
+ */
+export class RegistrationScopeExceededError extends VerifierAttestationError {
+  declare readonly code: RegistrationScopeExceededErrorCode
+
+  constructor(code: RegistrationScopeExceededErrorCode, message: string, options: VerifierAttestationErrorOptions) {
+    super(code, message, options)
+    this.name = 'RegistrationScopeExceededError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, RegistrationScopeExceededError)
+    }
+  }
+}
+
+/**
+ * The registration certificate is revoked or suspended, or its status could not be verified
+ */
+export class RegistrationCertificateStatusError extends VerifierAttestationError {
+  declare readonly code: RegistrationCertificateStatusErrorCode
+
+  constructor(code: RegistrationCertificateStatusErrorCode, message: string, options: VerifierAttestationErrorOptions) {
+    super(code, message, options)
+    this.name = 'RegistrationCertificateStatusError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, RegistrationCertificateStatusError)
+    }
+  }
+}
+
+/**
+ * The certificate chain of the relying party access certificate, used to sign the authorization request, is invalid
+ */
+export class InvalidCertificateChainError extends VerifierAttestationError {
+  declare readonly code: InvalidCertificateChainErrorCode
+
+  constructor(code: InvalidCertificateChainErrorCode, message: string, options: VerifierAttestationErrorOptions) {
+    super(code, message, options)
+    this.name = 'InvalidCertificateChainError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, InvalidCertificateChainError)
+    }
+  }
+}
+
+/**
+ * The verifier attestation is passed by reference, but could not be resolved
+ */
+export class UnresolvableVerifierAttestationError extends VerifierAttestationError {
+  declare readonly code: UnresolvableVerifierAttestationErrorCode
+
+  constructor(
+    code: UnresolvableVerifierAttestationErrorCode,
+    message: string,
+    options: VerifierAttestationErrorOptions
+  ) {
+    super(code, message, options)
+    this.name = 'UnresolvableVerifierAttestationError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, UnresolvableVerifierAttestationError)
+    }
+  }
+}
+
+/**
+ * The entitlements or public body status of the relying party do not comply with the entitlement policy
+ */
+export class EntitlementPolicyError extends VerifierAttestationError {
+  declare readonly code: EntitlementPolicyErrorCode
+
+  constructor(code: EntitlementPolicyErrorCode, message: string, options: VerifierAttestationErrorOptions) {
+    super(code, message, options)
+    this.name = 'EntitlementPolicyError'
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, EntitlementPolicyError)
+    }
+  }
+}
+
+/**
+ * The credential offer can not be verified against the registration certificate of the issuer.
+ *
+ * Errors of the registration certificate itself are reported as `VerifierAttestationError`, without a `verifierAttestationIndex`.
+ */
+export class UnsupportedCredentialOfferError extends EudiWalletExtensionsError {
+  public readonly code: UnsupportedCredentialOfferErrorCode
+  public readonly details: Record<string, unknown>
+
+  constructor(
+    code: UnsupportedCredentialOfferErrorCode,
+    message: string,
+    options: Omit<VerifierAttestationErrorOptions, 'verifierAttestationIndex'> = {}
+  ) {
+    super(message, { cause: options.cause })
+    this.name = 'UnsupportedCredentialOfferError'
+    this.code = code
+    this.details = options.details ?? {}
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, UnsupportedCredentialOfferError)
+    }
+  }
+}
@@ -1,6 +1,33 @@
+export * from './createRegistrationCertificate'
+export * from './disclosurePolicy'
+export * from './entitlementPolicy'
 export * from './error'
+export * from './isDcqlQueryEqualOrSubset'
 export * from './merge-json'
+export * from './presentationExchange'
+export {
+  getRegistrationCertificateDcqlQuery,
+  type ParsedRegistrationCertificate,
+  parseRegistrationCertificate,
+  type RegistrationCertificate,
+  type RegistrationCertificateStatusOptions,
+} from './registrationCertificate'
+export * from './relyingPartyIdentity'
+export * from './relyingPartyInfo'
+export * from './timeContext'
+export * from './tokenStatusList'
 export * from './validation/ts12'
+export * from './validation/z-registration-certificate'
 export * from './validation/z-sca-attestation-ext'
 export * from './validation/z-transaction-data'
-export { verifyOpenid4VpAuthorizationRequest } from './verifyOpenid4VpAuthorizationRequest'
+export * from './verifierAttestationResolver'
+export * from './verifyOpenid4VciIssuerRegistrationCertificate'
+export {
+  type AuthorizationRequestVerificationResult,
+  type AuthorizationRequestVerificationVerdict,
+  type RegistrationCertificateRequirement,
+  type VerifierAttestationVerificationResult,
+  type VerifyAuthorizationRequestOptions,
+  verifyOpenid4VpAuthorizationRequest,
+} from './verifyOpenid4VpAuthorizationRequest'
+export * from './x509CertificateChain'
@@ -1,109 +1,741 @@
-import { type DcqlQuery, equalsIgnoreOrder, equalsWithOrder } from '@credo-ts/core'
+import type { DcqlQuery } from '@credo-ts/core'
 
-export function isDcqlQueryEqualOrSubset(arq: DcqlQuery, rcq: DcqlQuery): boolean {
-  if (rcq.credential_sets) {
-    return false
-  }
+type CredentialQuery = DcqlQuery['credentials'][number]
+type ClaimQuery = NonNullable<CredentialQuery['claims']>[number]
+type ClaimPath = Array<string | number | null>
+type ClaimValue = string | number | boolean
 
-  if (rcq.credentials.some((c) => c.id)) {
-    return false
-  }
+export type DcqlScopeViolationCode =
+  | 'unsupported_format'
+  | 'format_not_registered'
+  | 'vct_values_not_registered'
+  | 'doctype_value_not_registered'
+  | 'type_values_not_registered'
+  | 'trusted_authorities_not_registered'
+  | 'claim_not_registered'
+  | 'claim_values_not_registered'
+  | 'credential_combination_not_registered'
+  | 'too_many_credential_combinations'
+
+/**
+ * A part of the DCQL query of the authorization request that is not within the scope of the registration certificate
+ */
+export interface DcqlScopeViolation {
+  code: DcqlScopeViolationCode
+
+  /**
+   * The id of the credential query of the authorization request that is not within the registration scope
+   */
+  credentialQueryId: string
+
+  /**
+   * The path of the claim, only present if the violation is about a claim
+   */
+  claimPath?: ClaimPath
+
+  message: string
+}
+
+export interface DcqlScopeOptions {
+  /**
+   * The SD-JWT VC type metadata of the requested credential types. A requested `vct` that `extends`, directly or
+   * through other types, a registered `vct` is within the registration scope.
+   */
+  vctTypeMetadata?: Array<{ vct: string; extends?: string }>
+}
+
+const supportedFormats = ['mso_mdoc', 'dc+sd-jwt', 'vc+sd-jwt', 'jwt_vc_json', 'ldp_vc']
 
-  // only sd-jwt and mdoc are supported
-  if (arq.credentials.some((c) => c.format !== 'mso_mdoc' && c.format !== 'vc+sd-jwt' && c.format !== 'dc+sd-jwt')) {
-    return false
+/**
+ * Returns the violations of the candidate with the fewest violations, or `undefined` if there are no candidates
+ */
+const getLeastViolations = <T>(candidates: Array<T>, getViolations: (candidate: T) => Array<DcqlScopeViolation>) => {
+  let leastViolations: Array<DcqlScopeViolation> | undefined
+  for (const candidate of candidates) {
+    const violations = getViolations(candidate)
+    if (violations.length === 0) return violations
+    if (!leastViolations || violations.length < leastViolations.length) leastViolations = violations
   }
 
-  credentialQueryLoop: for (const credentialQuery of arq.credentials) {
-    const matchingRcqCredentialQueriesBasedOnFormat = rcq.credentials.filter((c) => c.format === credentialQuery.format)
+  return leastViolations
+}
 
-    if (matchingRcqCredentialQueriesBasedOnFormat.length === 0) return false
+const uniqueViolations = (violations: Array<DcqlScopeViolation>) => {
+  const keys = new Set<string>()
+  return violations.filter(({ code, credentialQueryId, claimPath }) => {
+    const key = JSON.stringify([code, credentialQueryId, claimPath])
+    if (keys.has(key)) return false
+    keys.add(key)
+    return true
+  })
+}
 
-    switch (credentialQuery.format) {
-      case 'mso_mdoc': {
-        const doctypeValue = credentialQuery.meta?.doctype_value
-        if (!doctypeValue) return false
-        if (typeof credentialQuery.meta?.doctype_value !== 'string') return false
+/**
+ * Returns the combinations of ids that can be selected, one option of every set. Optional sets may be left
+ * out, but as requesting less is always within scope, only the combinations with an option of every set are returned.
+ */
+const getOptionCombinations = (sets: Array<Array<Array<string>>>) => {
+  let combinations: Array<Array<string>> = [[]]
+  for (const options of sets) {
+    combinations = combinations.flatMap((combination) => options.map((option) => [...combination, ...option]))
+  }
 
-        const foundMatchingRequests = matchingRcqCredentialQueriesBasedOnFormat.filter(
-          (c): c is typeof c & { format: 'mso_mdoc' } =>
-            !!(c.format === 'mso_mdoc' && c.meta && c.meta.doctype_value === doctypeValue)
-        )
+  return combinations
+}
 
-        // We do not know which one we have to pick based on the meta+format
-        if (foundMatchingRequests.length === 0) return false
+// A credential matches an alternative of `type_values` if it has all the types of that alternative. A requested
+// alternative is therefore within scope if it includes all the types of one of the registered alternatives.
+const isTypeValuesSubset = (typeValues: Array<Array<string>>, allowedTypeValues: Array<Array<string>>) =>
+  typeValues.every((types) =>
+    allowedTypeValues.some((allowedTypes) => allowedTypes.every((allowedType) => types.includes(allowedType)))
+  )
 
-        let foundFullyMatching = false
-        for (const matchedRequest of foundMatchingRequests) {
-          // credentialQuery.claims must match or be subset of matchedRequest
+const isVctRegistered = (vct: string, allowedVctValues: Array<string>, { vctTypeMetadata = [] }: DcqlScopeOptions) => {
+  const visitedVcts = new Set<string>()
+  let currentVct: string | undefined = vct
+  while (currentVct && !visitedVcts.has(currentVct)) {
+    if (allowedVctValues.includes(currentVct)) return true
 
-          // If the claims is empty, everything within the specific format+meta is allowed
-          if (!matchedRequest.claims) continue credentialQueryLoop
+    visitedVcts.add(currentVct)
+    currentVct = vctTypeMetadata.find((typeMetadata) => typeMetadata.vct === currentVct)?.extends
+  }
 
-          // If no specific claims are request, we allow it as the format+meta is allowed to be requested
-          // but this requests no additional claims
-          if (!credentialQuery.claims) continue credentialQueryLoop
+  return false
+}
 
-          // Every claim request in the authorization request must be found in the registration certificate
-          // for mdoc, this means matching the `path[0]` (namespace) and `path[1]` (value name)
-          const isEveryClaimAllowedToBeRequested = credentialQuery.claims.every(
-            (c) =>
-              'path' in c &&
-              matchedRequest.claims?.some(
-                (mrc) => 'path' in mrc && c.path[0] === mrc.path[0] && c.path[1] === mrc.path[1]
-              )
-          )
-          if (isEveryClaimAllowedToBeRequested) {
-            foundFullyMatching = true
-          }
-        }
+const getTypeValuesViolations = (
+  { id: credentialQueryId, meta }: CredentialQuery,
+  allowedMeta: CredentialQuery['meta']
+): Array<DcqlScopeViolation> => {
+  const typeValues = meta && 'type_values' in meta ? meta.type_values : undefined
+  if (
+    typeValues &&
+    allowedMeta &&
+    'type_values' in allowedMeta &&
+    isTypeValuesSubset(typeValues, allowedMeta.type_values)
+  ) {
+    return []
+  }
+
+  return [
+    {
+      code: 'type_values_not_registered',
+      credentialQueryId,
+      message: `The type_values ${JSON.stringify(typeValues ?? [])} of credential query '${credentialQueryId}' are not registered`,
+    },
+  ]
+}
+
+const getMetaViolations = (
+  credentialQuery: CredentialQuery,
+  allowedCredentialQuery: CredentialQuery,
+  options: DcqlScopeOptions
+): Array<DcqlScopeViolation> => {
+  const { id: credentialQueryId, format, meta } = credentialQuery
+  const allowedMeta = allowedCredentialQuery.format === credentialQuery.format ? allowedCredentialQuery.meta : undefined
 
-        if (!foundFullyMatching) return false
+  switch (format) {
+    case 'mso_mdoc': {
+      const doctypeValue = meta && 'doctype_value' in meta ? meta.doctype_value : undefined
+      if (
+        typeof doctypeValue === 'string' &&
+        allowedMeta &&
+        'doctype_value' in allowedMeta &&
+        allowedMeta.doctype_value === doctypeValue
+      ) {
+        return []
+      }
 
-        break
+      return [
+        {
+          code: 'doctype_value_not_registered',
+          credentialQueryId,
+          message: `The doctype_value '${doctypeValue}' of credential query '${credentialQueryId}' is not registered`,
+        },
+      ]
+    }
+    case 'jwt_vc_json':
+    case 'ldp_vc':
+      return getTypeValuesViolations(credentialQuery, allowedMeta)
+    case 'dc+sd-jwt':
+    case 'vc+sd-jwt': {
+      // `vc+sd-jwt` is used both for legacy SD-JWT VCs, identified by their `vct`, and for W3C VCs secured with SD-JWT
+      if (format === 'vc+sd-jwt' && meta && 'type_values' in meta) {
+        return getTypeValuesViolations(credentialQuery, allowedMeta)
       }
-      case 'dc+sd-jwt': {
-        const vctValues = credentialQuery.meta?.vct_values
-        if (!vctValues || vctValues.length === 0) return false
-
-        const foundMatchingRequests = matchingRcqCredentialQueriesBasedOnFormat.filter(
-          (c): c is typeof c & { format: 'dc+sd-jwt' } =>
-            !!(c.format === 'dc+sd-jwt' && c.meta?.vct_values && equalsIgnoreOrder(c.meta.vct_values, vctValues))
-        )
-
-        // We do not know which one we have to pick based on the meta+format
-        if (foundMatchingRequests.length === 0) return false
-
-        let foundFullyMatching = false
-        for (const matchedRequest of foundMatchingRequests) {
-          // credentialQuery.claims must match or be subset of matchedRequest
-
-          // If the claims is empty, everything within the specific format+meta is allowed
-          if (!matchedRequest.claims) continue credentialQueryLoop
-
-          // If no specific claims are request, we allow it as the format+meta is allowed to be requested
-          // but this requests no additional claims
-          if (!credentialQuery.claims) continue credentialQueryLoop
-
-          // Every claim request in the authorization request must be found in the registration certificate
-          // for sd-jwt, this means making sure that every `path[n]` is in the registration certificate
-          const isEveryClaimAllowedToBeRequested = credentialQuery.claims.every(
-            (c) =>
-              'path' in c && matchedRequest.claims?.some((mrc) => 'path' in mrc && equalsWithOrder(c.path, mrc.path))
-          )
-          if (isEveryClaimAllowedToBeRequested) {
-            foundFullyMatching = true
-          }
-        }
-
-        if (!foundFullyMatching) return false
-
-        break
+
+      const vctValues = meta && 'vct_values' in meta ? meta.vct_values : undefined
+      if (
+        vctValues &&
+        vctValues.length > 0 &&
+        allowedMeta &&
+        'vct_values' in allowedMeta &&
+        allowedMeta.vct_values &&
+        vctValues.every((vct) => isVctRegistered(vct, allowedMeta.vct_values ?? [], options))
+      ) {
+        return []
       }
-      default:
-        return false
+
+      return [
+        {
+          code: 'vct_values_not_registered',
+          credentialQueryId,
+          message: `The vct_values ${JSON.stringify(vctValues ?? [])} of credential query '${credentialQueryId}' are not registered`,
+        },
+      ]
+    }
+    default:
+      return [
+        {
+          code: 'unsupported_format',
+          credentialQueryId,
+          message: `Format '${format}' of credential query '${credentialQueryId}' is not supported`,
+        },
+      ]
+  }
+}
+
+/**
+ * A registration certificate that restricts the trusted authorities only allows requests that are restricted to a
+ * subset of those trusted authorities
+ */
+const isTrustedAuthoritiesEqualOrSubset = (
+  credentialQuery: CredentialQuery,
+  allowedCredentialQuery: CredentialQuery
+) => {
+  const allowedTrustedAuthorities = allowedCredentialQuery.trusted_authorities
+  if (!allowedTrustedAuthorities) return true
+  if (!credentialQuery.trusted_authorities) return false
+
+  return credentialQuery.trusted_authorities.every((trustedAuthority) =>
+    allowedTrustedAuthorities.some(
+      (allowedTrustedAuthority) =>
+        allowedTrustedAuthority.type === trustedAuthority.type &&
+        trustedAuthority.values.every((value) => allowedTrustedAuthority.values.includes(value))
+    )
+  )
+}
+
+const getClaimPath = (claim: ClaimQuery): ClaimPath =>
+  'path' in claim ? claim.path : [claim.namespace, claim.claim_name]
+
+const isClaimPathCovered = (format: CredentialQuery['format'], claim: ClaimQuery, allowedClaim: ClaimQuery) => {
+  if (!('path' in claim) || !('path' in allowedClaim)) return false
+
+  // for mdoc, this means matching the `path[0]` (namespace) and `path[1]` (value name)
+  if (format === 'mso_mdoc') return claim.path[0] === allowedClaim.path[0] && claim.path[1] === allowedClaim.path[1]
+
+  // for the other formats, a registered path covers the paths of its children, and a `null` wildcard covers
+  // every index of an array. Requesting all elements of an array is only covered by a `null` wildcard.
+  const { path } = claim
+  return (
+    allowedClaim.path.length <= path.length &&
+    allowedClaim.path.every(
+      (segment, index) => segment === path[index] || (segment === null && typeof path[index] === 'number')
+    )
+  )
+}
+
+// A claim that is restricted to specific values may only be requested with a subset of those values,
+// as requesting the claim without `values` would disclose its actual value
+const isClaimValuesSubset = (claim: ClaimQuery, allowedClaim: ClaimQuery) =>
+  !allowedClaim.values || (!!claim.values && claim.values.every((value) => allowedClaim.values?.includes(value)))
+
+const getClaimViolations = (
+  credentialQuery: CredentialQuery,
+  claim: ClaimQuery,
+  allowedClaims: Array<ClaimQuery>
+): Array<DcqlScopeViolation> => {
+  const claimPath = getClaimPath(claim)
+  const path = claimPath.map((segment) => (segment === null ? '*' : segment)).join('.')
+
+  const allowedClaimsWithPath = allowedClaims.filter((allowedClaim) =>
+    isClaimPathCovered(credentialQuery.format, claim, allowedClaim)
+  )
+  if (allowedClaimsWithPath.length === 0) {
+    return [
+      {
+        code: 'claim_not_registered',
+        credentialQueryId: credentialQuery.id,
+        claimPath,
+        message: `Claim '${path}' of credential query '${credentialQuery.id}' is not registered`,
+      },
+    ]
+  }
+
+  if (!allowedClaimsWithPath.some((allowedClaim) => isClaimValuesSubset(claim, allowedClaim))) {
+    return [
+      {
+        code: 'claim_values_not_registered',
+        credentialQueryId: credentialQuery.id,
+        claimPath,
+        message: `Claim '${path}' of credential query '${credentialQuery.id}' may only be requested with the registered values`,
+      },
+    ]
+  }
+
+  return []
+}
+
+/**
+ * Returns the combinations of claims that can be requested together. Without `claim_sets` every claim is
+ * requested, with `claim_sets` the claims of one of the options, referenced by their `id`.
+ */
+const getClaimCombinations = ({ claims = [], claim_sets }: CredentialQuery): Array<Array<ClaimQuery>> => {
+  if (!claim_sets) return [claims]
+
+  return claim_sets.map((claimIds) => claims.filter((claim) => claim.id !== undefined && claimIds.includes(claim.id)))
+}
+
+/**
+ * Returns why the credential query of the authorization request is not equal to, or a subset of, the credential
+ * query of the registration certificate
+ */
+const getCredentialQueryViolations = (
+  credentialQuery: CredentialQuery,
+  allowedCredentialQuery: CredentialQuery,
+  options: DcqlScopeOptions
+): Array<DcqlScopeViolation> => {
+  const { id: credentialQueryId, format } = credentialQuery
+
+  if (!supportedFormats.includes(format)) return getMetaViolations(credentialQuery, allowedCredentialQuery, options)
+  if (format !== allowedCredentialQuery.format) {
+    return [
+      {
+        code: 'format_not_registered',
+        credentialQueryId,
+        message: `Format '${format}' of credential query '${credentialQueryId}' is not registered`,
+      },
+    ]
+  }
+
+  const metaViolations = getMetaViolations(credentialQuery, allowedCredentialQuery, options)
+  if (metaViolations.length > 0) return metaViolations
+
+  const violations: Array<DcqlScopeViolation> = []
+  if (!isTrustedAuthoritiesEqualOrSubset(credentialQuery, allowedCredentialQuery)) {
+    violations.push({
+      code: 'trusted_authorities_not_registered',
+      credentialQueryId,
+      message: `Credential query '${credentialQueryId}' must be restricted to the registered trusted_authorities`,
+    })
+  }
+
+  // If the claims is empty, everything within the specific format+meta is allowed
+  if (!allowedCredentialQuery.claims) return violations
+
+  // If no specific claims are request, we allow it as the format+meta is allowed to be requested
+  // but this requests no additional claims
+  if (!credentialQuery.claims) return violations
+
+  // Every claim request in the authorization request must be found in the registration certificate. With
+  // `claim_sets` every option of the request must be allowed by one of the options of the registration certificate.
+  const allowedClaimCombinations = getClaimCombinations(allowedCredentialQuery)
+  for (const claimCombination of getClaimCombinations(credentialQuery)) {
+    const claimViolations = getLeastViolations(allowedClaimCombinations, (allowedClaims) =>
+      claimCombination.flatMap((claim) => getClaimViolations(credentialQuery, claim, allowedClaims))
+    )
+    violations.push(...(claimViolations ?? []))
+  }
+
+  return uniqueViolations(violations)
+}
+
+/**
+ * Returns the combinations of credential queries that can be requested together. Without `credential_sets`
+ * every credential query is requested, with `credential_sets` the referenced credential queries of one
+ * option of every credential set.
+ */
+const getCredentialQueryCombinations = (query: DcqlQuery): Array<Array<CredentialQuery>> => {
+  if (!query.credential_sets) return [query.credentials]
+
+  return getOptionCombinations(query.credential_sets.map((credentialSet) => credentialSet.options)).map(
+    (credentialQueryIds) =>
+      query.credentials.filter((credentialQuery) => credentialQueryIds.includes(credentialQuery.id))
+  )
+}
+
+/**
+ * Returns the credential queries that can be requested, which are the credential queries that are referenced by the
+ * `credential_sets`, or every credential query without `credential_sets`
+ */
+const getRequestableCredentialQueries = (query: DcqlQuery): Array<CredentialQuery> => {
+  if (!query.credential_sets) return query.credentials
+
+  const credentialQueryIds = query.credential_sets.flatMap((credentialSet) => credentialSet.options.flat())
+  return query.credentials.filter((credentialQuery) => credentialQueryIds.includes(credentialQuery.id))
+}
+
+// The number of combinations grows exponentially with the credential sets of the authorization request, which is
+// controlled by the relying party, so the combinations are only compared up to this limit
+const MAX_CREDENTIAL_COMBINATIONS = 1024
+
+const getCredentialQueryCombinationCount = (query: DcqlQuery) =>
+  query.credential_sets?.reduce((count, credentialSet) => count * credentialSet.options.length, 1) ?? 1
+
+/**
+ * Returns the violations against the closest credential query of the candidates, preferring the credential queries
+ * with the same format and meta over the number of violations
+ */
+const getClosestCredentialQueryViolations = (
+  credentialQuery: CredentialQuery,
+  allowedCredentialQueries: Array<CredentialQuery>,
+  options: DcqlScopeOptions
+) => {
+  const withFormat = allowedCredentialQueries.filter(({ format }) => format === credentialQuery.format)
+  const withMeta = withFormat.filter(
+    (allowedCredentialQuery) => getMetaViolations(credentialQuery, allowedCredentialQuery, options).length === 0
+  )
+  const candidates = withMeta.length > 0 ? withMeta : withFormat.length > 0 ? withFormat : allowedCredentialQueries
+
+  return getLeastViolations(candidates, (allowedCredentialQuery) =>
+    getCredentialQueryViolations(credentialQuery, allowedCredentialQuery, options)
+  )
+}
+
+const getCombinationViolations = (
+  combination: Array<CredentialQuery>,
+  allowedCombination: Array<CredentialQuery>,
+  registeredCredentialQueries: Array<CredentialQuery>,
+  options: DcqlScopeOptions
+) =>
+  combination.flatMap((credentialQuery): Array<DcqlScopeViolation> => {
+    const violations = getClosestCredentialQueryViolations(credentialQuery, allowedCombination, options)
+    if (violations?.length === 0) return []
+
+    const registeredViolations = getClosestCredentialQueryViolations(
+      credentialQuery,
+      registeredCredentialQueries,
+      options
+    )
+    if (registeredViolations?.length === 0) {
+      return [
+        {
+          code: 'credential_combination_not_registered',
+          credentialQueryId: credentialQuery.id,
+          message: `Credential query '${credentialQuery.id}' is not registered to be requested together with the other requested credentials`,
+        },
+      ]
     }
+
+    return (
+      registeredViolations ?? [
+        {
+          code: 'format_not_registered',
+          credentialQueryId: credentialQuery.id,
+          message: `Format '${credentialQuery.format}' of credential query '${credentialQuery.id}' is not registered`,
+        },
+      ]
+    )
+  })
+
+/**
+ * Returns the parts of the DCQL query of the authorization request (`arq`) that are not within the scope of the
+ * DCQL query of the registration certificate (`rcq`). Every combination of credentials that can be requested must be
+ * allowed by a combination of credentials of the registration certificate. For every combination, the violations
+ * are determined against the combination of the registration certificate that is the closest match.
+ *
+ * @returns an empty array if the DCQL query of the authorization request is equal to, or a subset of, the DCQL query
+ * of the registration certificate
+ */
+export function getDcqlQueryScopeViolations(
+  arq: DcqlQuery,
+  rcq: DcqlQuery,
+  options: DcqlScopeOptions = {}
+): Array<DcqlScopeViolation> {
+  const registeredCredentialQueries = getRequestableCredentialQueries(rcq)
+
+  // Without credential sets in the registration certificate all registered credential queries may be requested
+  // together, so every credential query that can be requested is compared on its own
+  if (!rcq.credential_sets) {
+    return uniqueViolations(
+      getCombinationViolations(
+        getRequestableCredentialQueries(arq),
+        registeredCredentialQueries,
+        registeredCredentialQueries,
+        options
+      )
+    )
+  }
+
+  if (getCredentialQueryCombinationCount(arq) * getCredentialQueryCombinationCount(rcq) > MAX_CREDENTIAL_COMBINATIONS) {
+    return getRequestableCredentialQueries(arq).map((credentialQuery) => ({
+      code: 'too_many_credential_combinations',
+      credentialQueryId: credentialQuery.id,
+      message:
+        'The credential_sets of the request allow too many combinations to compare with the registration certificate',
+    }))
+  }
+
+  const allowedCombinations = getCredentialQueryCombinations(rcq)
+  return uniqueViolations(
+    getCredentialQueryCombinations(arq).flatMap(
+      (combination) =>
+        getLeastViolations(allowedCombinations, (allowedCombination) =>
+          getCombinationViolations(combination, allowedCombination, registeredCredentialQueries, options)
+        ) ?? []
+    )
+  )
+}
+
+/**
+ * Whether the DCQL query of the authorization request (`arq`) is equal to, or a subset of, the DCQL query of the
+ * registration certificate (`rcq`). Use `getDcqlQueryScopeViolations` to find out why it is not.
+ * The `credential_sets` of the registration certificate reference its credential queries by `id`.
+ */
+export function isDcqlQueryEqualOrSubset(arq: DcqlQuery, rcq: DcqlQuery, options: DcqlScopeOptions = {}): boolean {
+  return getDcqlQueryScopeViolations(arq, rcq, options).length === 0
+}
+
+/**
+ * The DCQL query of an authorization request, narrowed to the scope of a registration certificate
+ */
+export interface DcqlQueryScopeReduction {
+  /**
+   * The narrowed DCQL query, or `undefined` if nothing of the DCQL query is within the registration scope
+   */
+  dcqlQuery?: DcqlQuery
+
+  /**
+   * The ids of the credential queries that are not part of the narrowed DCQL query
+   */
+  removedCredentialQueryIds: Array<string>
+
+  /**
+   * The claims that are removed from the credential queries of the narrowed DCQL query
+   */
+  removedClaims: Array<{ credentialQueryId: string; claimPath: ClaimPath }>
+
+  /**
+   * The claims of the narrowed DCQL query that are restricted to the registered `values`. The `removedValues` are the
+   * requested values that are not registered, and are not present if the claim was requested without `values`.
+   */
+  restrictedClaims: Array<{
+    credentialQueryId: string
+    claimPath: ClaimPath
+    values: Array<ClaimValue>
+    removedValues?: Array<ClaimValue>
+  }>
+}
+
+type RestrictedClaim = { claimPath: ClaimPath; values: Array<ClaimValue>; removedValues?: Array<ClaimValue> }
+
+type ReducedCredentialQuery = {
+  credentialQuery: CredentialQuery
+  removedClaims: Array<ClaimPath>
+  restrictedClaims: Array<RestrictedClaim>
+}
+
+const intersectTrustedAuthorities = (credentialQuery: CredentialQuery, allowedCredentialQuery: CredentialQuery) => {
+  const allowedTrustedAuthorities = allowedCredentialQuery.trusted_authorities
+  if (!allowedTrustedAuthorities) return credentialQuery.trusted_authorities
+  if (!credentialQuery.trusted_authorities) return allowedTrustedAuthorities
+
+  return credentialQuery.trusted_authorities
+    .flatMap((trustedAuthority) =>
+      allowedTrustedAuthorities
+        .filter((allowedTrustedAuthority) => allowedTrustedAuthority.type === trustedAuthority.type)
+        .map((allowedTrustedAuthority) => ({
+          ...trustedAuthority,
+          values: trustedAuthority.values.filter((value) => allowedTrustedAuthority.values.includes(value)),
+        }))
+    )
+    .filter((trustedAuthority) => trustedAuthority.values.length > 0)
+}
+
+/**
+ * Returns the claim if it is allowed, the claim restricted to the registered `values`, or `undefined`
+ * if the claim is not allowed by any of the allowed claims
+ */
+const reduceClaim = (
+  credentialQuery: CredentialQuery,
+  claim: ClaimQuery,
+  allowedClaims: Array<ClaimQuery>
+): ClaimQuery | undefined => {
+  if (getClaimViolations(credentialQuery, claim, allowedClaims).length === 0) return claim
+
+  for (const allowedClaim of allowedClaims) {
+    if (!allowedClaim.values || !isClaimPathCovered(credentialQuery.format, claim, allowedClaim)) continue
+
+    const values = claim.values
+      ? claim.values.filter((value) => allowedClaim.values?.includes(value))
+      : allowedClaim.values
+    if (values.length > 0) return { ...claim, values } as ClaimQuery
+  }
+
+  return undefined
+}
+
+// Only the registered types of the requested `vct_values` remain
+const reduceVctValues = (
+  credentialQuery: CredentialQuery,
+  allowedCredentialQuery: CredentialQuery,
+  options: DcqlScopeOptions
+) => {
+  const { meta } = credentialQuery
+  const allowedMeta = allowedCredentialQuery.format === credentialQuery.format ? allowedCredentialQuery.meta : undefined
+  if (!meta || !('vct_values' in meta) || !meta.vct_values) return credentialQuery
+  if (!allowedMeta || !('vct_values' in allowedMeta) || !allowedMeta.vct_values) return credentialQuery
+
+  const allowedVctValues = allowedMeta.vct_values
+  return {
+    ...credentialQuery,
+    meta: { ...meta, vct_values: meta.vct_values.filter((vct) => isVctRegistered(vct, allowedVctValues, options)) },
+  } as CredentialQuery
+}
+
+/**
+ * Narrows the credential query of the authorization request to the credential query of the registration
+ * certificate, or returns `undefined` if the format, meta or trusted authorities are not allowed, or none of the
+ * requested claims remain.
+ */
+const reduceCredentialQuery = (
+  requestedCredentialQuery: CredentialQuery,
+  allowedCredentialQuery: CredentialQuery,
+  options: DcqlScopeOptions
+): ReducedCredentialQuery | undefined => {
+  const credentialQuery = reduceVctValues(requestedCredentialQuery, allowedCredentialQuery, options)
+  if (
+    credentialQuery.format !== allowedCredentialQuery.format ||
+    getMetaViolations(credentialQuery, allowedCredentialQuery, options).length > 0
+  ) {
+    return undefined
+  }
+
+  const trustedAuthorities = intersectTrustedAuthorities(credentialQuery, allowedCredentialQuery)
+  if (trustedAuthorities?.length === 0) return undefined
+
+  const narrowedCredentialQuery = (
+    trustedAuthorities ? { ...credentialQuery, trusted_authorities: trustedAuthorities } : credentialQuery
+  ) as CredentialQuery
+  if (!allowedCredentialQuery.claims || !credentialQuery.claims) {
+    return { credentialQuery: narrowedCredentialQuery, removedClaims: [], restrictedClaims: [] }
   }
 
-  return true
+  // The claims are narrowed to a single claim set of the registration certificate, as claims of different claim
+  // sets can not be requested together
+  const requestedClaims = credentialQuery.claims
+  const [reducedClaims] = getClaimCombinations(allowedCredentialQuery)
+    .map((allowedClaims) => requestedClaims.map((claim) => reduceClaim(credentialQuery, claim, allowedClaims)))
+    .sort((a, b) => a.filter((claim) => !claim).length - b.filter((claim) => !claim).length)
+
+  const claims = reducedClaims.filter((claim): claim is ClaimQuery => claim !== undefined)
+  const claimIds = claims.map((claim) => claim.id)
+  const claimSets = credentialQuery.claim_sets
+    ?.map((claimSet) => claimSet.filter((claimId) => claimIds.includes(claimId)))
+    .filter((claimSet) => claimSet.length > 0)
+  if (claims.length === 0 || claimSets?.length === 0) return undefined
+
+  return {
+    credentialQuery: {
+      ...narrowedCredentialQuery,
+      claims,
+      ...(claimSets ? { claim_sets: claimSets } : {}),
+    } as CredentialQuery,
+    removedClaims: requestedClaims.filter((_, index) => !reducedClaims[index]).map(getClaimPath),
+    // A claim that is allowed as requested is not changed by `reduceClaim`
+    restrictedClaims: requestedClaims.flatMap((claim, index): Array<RestrictedClaim> => {
+      const reducedClaim = reducedClaims[index]
+      if (!reducedClaim || reducedClaim === claim) return []
+
+      const values = (reducedClaim.values ?? []) as Array<ClaimValue>
+      const requestedValues = claim.values as Array<ClaimValue> | undefined
+      return [
+        {
+          claimPath: getClaimPath(claim),
+          values,
+          ...(requestedValues ? { removedValues: requestedValues.filter((value) => !values.includes(value)) } : {}),
+        },
+      ]
+    }),
+  }
+}
+
+/**
+ * Returns the DCQL query with only the reduced credential queries. Options of credential sets that reference a removed
+ * credential query can not be fulfilled anymore and are removed, as are the credential queries that are no longer
+ * referenced by a credential set.
+ */
+const getReducedDcqlQuery = (
+  query: DcqlQuery,
+  reducedCredentialQueries: Map<string, ReducedCredentialQuery>
+): DcqlQuery | undefined => {
+  const credentialSets = query.credential_sets
+    ?.map((credentialSet) => ({
+      ...credentialSet,
+      options: credentialSet.options.filter((option) =>
+        option.every((credentialQueryId) => reducedCredentialQueries.has(credentialQueryId))
+      ),
+    }))
+    .filter((credentialSet) => credentialSet.options.length > 0)
+  const referencedCredentialQueryIds = credentialSets?.flatMap((credentialSet) => credentialSet.options.flat())
+
+  const credentials = query.credentials.flatMap((credentialQuery) => {
+    const reducedCredentialQuery = reducedCredentialQueries.get(credentialQuery.id)
+    if (!reducedCredentialQuery) return []
+    if (referencedCredentialQueryIds && !referencedCredentialQueryIds.includes(credentialQuery.id)) return []
+
+    return [reducedCredentialQuery.credentialQuery]
+  })
+  if (credentials.length === 0) return undefined
+
+  return { ...query, credentials, ...(credentialSets ? { credential_sets: credentialSets } : {}) } as DcqlQuery
+}
+
+/**
+ * Narrows the DCQL query of the authorization request (`arq`) to the scope of the DCQL query of the registration
+ * certificate (`rcq`), so a wallet can offer to share only what the relying party is registered for. Credential
+ * queries that are not registered are removed, claims that are not registered are removed from the credential
+ * queries, and claims and trusted authorities are restricted to the registered `values`.
+ *
+ * The narrowed DCQL query is equal to, or a subset of, the DCQL query of the registration certificate.
+ */
+export function reduceDcqlQueryToRegistrationScope(
+  arq: DcqlQuery,
+  rcq: DcqlQuery,
+  options: DcqlScopeOptions = {}
+): DcqlQueryScopeReduction {
+  const registeredCredentialQueries = getRequestableCredentialQueries(rcq)
+
+  const reducedCredentialQueries = new Map<string, ReducedCredentialQuery>()
+  for (const credentialQuery of arq.credentials) {
+    const [reducedCredentialQuery] = registeredCredentialQueries
+      .flatMap(
+        (allowedCredentialQuery) => reduceCredentialQuery(credentialQuery, allowedCredentialQuery, options) ?? []
+      )
+      .sort((a, b) => a.removedClaims.length - b.removedClaims.length)
+
+    if (reducedCredentialQuery) reducedCredentialQueries.set(credentialQuery.id, reducedCredentialQuery)
+  }
+
+  // Credential queries that are allowed on their own can still violate the credential sets of the
+  // registration certificate when requested together, in which case they are removed as well
+  let dcqlQuery = getReducedDcqlQuery(arq, reducedCredentialQueries)
+  let violations = dcqlQuery ? getDcqlQueryScopeViolations(dcqlQuery, rcq, options) : []
+  while (dcqlQuery && violations.length > 0) {
+    for (const { credentialQueryId } of violations) reducedCredentialQueries.delete(credentialQueryId)
+
+    dcqlQuery = getReducedDcqlQuery(arq, reducedCredentialQueries)
+    violations = dcqlQuery ? getDcqlQueryScopeViolations(dcqlQuery, rcq, options) : []
+  }
+
+  const credentialQueryIds = dcqlQuery?.credentials.map((credentialQuery) => credentialQuery.id) ?? []
+  return {
+    dcqlQuery,
+    removedCredentialQueryIds: arq.credentials
+      .map((credentialQuery) => credentialQuery.id)
+      .filter((credentialQueryId) => !credentialQueryIds.includes(credentialQueryId)),
+    removedClaims: credentialQueryIds.flatMap(
+      (credentialQueryId) =>
+        reducedCredentialQueries
+          .get(credentialQueryId)
+          ?.removedClaims.map((claimPath) => ({ credentialQueryId, claimPath })) ?? []
+    ),
+    restrictedClaims: credentialQueryIds.flatMap(
+      (credentialQueryId) =>
+        reducedCredentialQueries
+          .get(credentialQueryId)
+          ?.restrictedClaims.map((restrictedClaim) => ({ credentialQueryId, ...restrictedClaim })) ?? []
+    ),
+  }
 }
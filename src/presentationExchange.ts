@@ -0,0 +1,197 @@
+import type { DcqlQuery, DifPresentationExchangeDefinition } from '@credo-ts/core'
+import { PresentationExchangeConversionError } from './error'
+
+type InputDescriptor = DifPresentationExchangeDefinition['input_descriptors'][number]
+type DcqlCredentialQuery = DcqlQuery['credentials'][number]
+type ClaimPath = Array<string | number | null>
+
+// Presentation Exchange formats that can be expressed as a DCQL credential query with `vct_values` or a `doctype_value`.
+// SD-JWT VCs are identified as `vc+sd-jwt` in Presentation Exchange, which is `dc+sd-jwt` in DCQL.
+const dcqlFormats = {
+  'vc+sd-jwt': 'dc+sd-jwt',
+  'dc+sd-jwt': 'dc+sd-jwt',
+  mso_mdoc: 'mso_mdoc',
+} as const
+
+// Matches a single segment of a JSONPath, e.g. `.name`, `['name']`, `["name"]`, `[0]` or `[*]`
+const jsonPathSegmentRegex = /\.([A-Za-z_$][\w$-]*)|\[(?:'([^']*)'|"([^"]*)"|(\d+)|(\*))\]/y
+
+/**
+ * Parses a JSONPath as used in the fields of an input descriptor to a DCQL claims path. Only
+ * member names, array indices and array wildcards are supported.
+ */
+const parseJsonPath = (jsonPath: string): ClaimPath | undefined => {
+  if (!jsonPath.startsWith('$')) return undefined
+
+  const path: ClaimPath = []
+  jsonPathSegmentRegex.lastIndex = 1
+  while (jsonPathSegmentRegex.lastIndex < jsonPath.length) {
+    const match = jsonPathSegmentRegex.exec(jsonPath)
+    if (!match) return undefined
+
+    const [, name, singleQuotedName, doubleQuotedName, index, wildcard] = match
+    if (index !== undefined) path.push(Number(index))
+    else if (wildcard !== undefined) path.push(null)
+    else path.push(name ?? singleQuotedName ?? doubleQuotedName)
+  }
+
+  return path.length > 0 ? path : undefined
+}
+
+const getFieldFilterValues = (filter: Record<string, unknown> | undefined) => {
+  if (typeof filter?.const === 'string') return [filter.const]
+  if (Array.isArray(filter?.enum) && filter.enum.every((value) => typeof value === 'string')) return filter.enum
+
+  return undefined
+}
+
+// Keywords of a field filter that can be expressed in DCQL. The `type` is implied by the `values` of the claim, and
+// a field without `const` or `enum` can be disclosed with any value.
+const supportedFilterKeywords = ['type', 'const', 'enum']
+
+const isClaimValue = (value: unknown): value is string | number | boolean =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+
+/**
+ * Converts the filter of a field, other than the `vct`, to the `values` of a DCQL claim
+ */
+const getClaimValues = (inputDescriptor: InputDescriptor, filter: Record<string, unknown> | undefined) => {
+  if (!filter) return undefined
+
+  const unsupportedKeywords = Object.keys(filter).filter((keyword) => !supportedFilterKeywords.includes(keyword))
+  if (unsupportedKeywords.length > 0) {
+    throw new PresentationExchangeConversionError(
+      `Field filter of input descriptor '${inputDescriptor.id}' uses keywords that can not be expressed in DCQL: ${unsupportedKeywords.join(', ')}`
+    )
+  }
+
+  const values = 'const' in filter ? [filter.const] : filter.enum
+  if (values === undefined) return undefined
+  if (!Array.isArray(values) || values.length === 0 || !values.every(isClaimValue)) {
+    throw new PresentationExchangeConversionError(
+      `Field filter of input descriptor '${inputDescriptor.id}' must only allow strings, numbers or booleans`
+    )
+  }
+
+  return values
+}
+
+const getInputDescriptorFormat = (definition: DifPresentationExchangeDefinition, inputDescriptor: InputDescriptor) => {
+  const format = (('format' in inputDescriptor ? inputDescriptor.format : undefined) ??
+    definition.format ??
+    {}) as Record<string, unknown>
+  const formats = new Set(Object.keys(format).map((f) => dcqlFormats[f as keyof typeof dcqlFormats]))
+
+  const [dcqlFormat] = formats
+  if (formats.size !== 1 || !dcqlFormat) {
+    throw new PresentationExchangeConversionError(
+      `Input descriptor '${inputDescriptor.id}' must be limited to one of the ${Object.keys(dcqlFormats).join(', ')} formats. Found: ${Object.keys(format).join(', ') || 'no format'}`
+    )
+  }
+
+  return dcqlFormat
+}
+
+const getInputDescriptorFields = (inputDescriptor: InputDescriptor) =>
+  (inputDescriptor.constraints?.fields ?? []).map((field) => {
+    const paths = field.path.map((jsonPath) => {
+      const path = parseJsonPath(jsonPath)
+      if (!path) {
+        throw new PresentationExchangeConversionError(
+          `Field path '${jsonPath}' of input descriptor '${inputDescriptor.id}' is not supported`
+        )
+      }
+      return path
+    })
+
+    return {
+      paths,
+      filter: field.filter as Record<string, unknown> | undefined,
+      intentToRetain: 'intent_to_retain' in field ? field.intent_to_retain === true : undefined,
+    }
+  })
+
+const convertSdJwtInputDescriptor = (inputDescriptor: InputDescriptor): Omit<DcqlCredentialQuery, 'id'> => {
+  const fields = getInputDescriptorFields(inputDescriptor)
+
+  // The `vct` field is used to select the type of the credential, which maps to the `vct_values` in DCQL
+  const vctFields = fields.filter((field) => field.paths.some((path) => path.length === 1 && path[0] === 'vct'))
+  const vctValues = vctFields.map((field) => getFieldFilterValues(field.filter)).find((values) => values !== undefined)
+  if (!vctValues || vctValues.length === 0) {
+    throw new PresentationExchangeConversionError(
+      `Input descriptor '${inputDescriptor.id}' must restrict the 'vct' to one or more values using a 'const' or 'enum' filter`
+    )
+  }
+
+  // Every alternative path of a field can be disclosed, so all of them must be within the registered scope
+  const claims = fields
+    .filter((field) => !vctFields.includes(field))
+    .flatMap((field) => {
+      const values = getClaimValues(inputDescriptor, field.filter)
+      return field.paths.map((path) => ({ path, ...(values ? { values } : {}) }))
+    })
+
+  return {
+    format: 'dc+sd-jwt',
+    meta: { vct_values: vctValues },
+    claims: claims.length > 0 ? claims : undefined,
+  } as Omit<DcqlCredentialQuery, 'id'>
+}
+
+const convertMdocInputDescriptor = (inputDescriptor: InputDescriptor): Omit<DcqlCredentialQuery, 'id'> => {
+  // According to ISO 18013-7 the id of the input descriptor is the doctype of the requested mdoc
+  const claims = getInputDescriptorFields(inputDescriptor).flatMap((field) => {
+    const values = getClaimValues(inputDescriptor, field.filter)
+    return field.paths.map((path) => {
+      if (path.length !== 2 || typeof path[0] !== 'string' || typeof path[1] !== 'string') {
+        throw new PresentationExchangeConversionError(
+          `Field paths of mdoc input descriptor '${inputDescriptor.id}' must consist of a namespace and element identifier, e.g. $['org.iso.18013.5.1']['given_name']`
+        )
+      }
+
+      return {
+        path: [path[0], path[1]],
+        ...(values ? { values } : {}),
+        ...(field.intentToRetain !== undefined ? { intent_to_retain: field.intentToRetain } : {}),
+      }
+    })
+  })
+
+  return {
+    format: 'mso_mdoc',
+    meta: { doctype_value: inputDescriptor.id },
+    claims: claims.length > 0 ? claims : undefined,
+  } as Omit<DcqlCredentialQuery, 'id'>
+}
+
+// DCQL only allows alphanumeric characters, underscores and hyphens in the id of a credential query
+const toCredentialQueryId = (id: string) => id.replace(/[^A-Za-z0-9_-]/g, '_')
+
+/**
+ * Converts a DIF Presentation Exchange definition to a DCQL query, so that it can be compared to the credentials
+ * that are allowed by a registration certificate. Every input descriptor is converted to a credential query:
+ *
+ * - SD-JWT VC: the `vct` field filter is converted to `vct_values`, every other field path to a claim.
+ * - mdoc: the input descriptor id is used as `doctype_value`, and every `$['namespace']['element']` field path to a claim.
+ *
+ * The `const` or `enum` of a field filter is converted to the `values` of the claim. Other filter keywords, e.g. a
+ * `pattern` or `minimum`, can not be expressed in DCQL.
+ *
+ * Submission requirements are not converted, which means every input descriptor is treated as requested.
+ *
+ * @throws {PresentationExchangeConversionError} when an input descriptor can not be expressed as a DCQL credential query
+ */
+export function convertPresentationDefinitionToDcqlQuery(definition: DifPresentationExchangeDefinition): DcqlQuery {
+  const credentials = definition.input_descriptors.map((inputDescriptor) => ({
+    id: toCredentialQueryId(inputDescriptor.id),
+    ...(getInputDescriptorFormat(definition, inputDescriptor) === 'mso_mdoc'
+      ? convertMdocInputDescriptor(inputDescriptor)
+      : convertSdJwtInputDescriptor(inputDescriptor)),
+  }))
+
+  if (credentials.length === 0) {
+    throw new PresentationExchangeConversionError('Presentation definition does not contain any input descriptors')
+  }
+
+  return { credentials } as DcqlQuery
+}
@@ -0,0 +1,443 @@
+import {
+  type AgentContext,
+  type DcqlQuery,
+  Jwt,
+  Kms,
+  TypedArrayEncoder,
+  X509Certificate,
+  X509ModuleConfig,
+} from '@credo-ts/core'
+import z from 'zod'
+import {
+  InvalidRegistrationCertificateError,
+  RegistrationCertificateStatusError,
+  UnsupportedVerifierAttestationError,
+  type VerifierAttestationError,
+} from './error'
+import { fromNumericDate, getNow, isInFuture, isInPast, type TimeContext } from './timeContext'
+import { resolveTokenStatus, type TokenStatusListFetcher, type TokenStatusResult } from './tokenStatusList'
+import {
+  type EtsiRegistrationCertificatePayload,
+  type FunkeRegistrationCertificatePayload,
+  type RegistrationCertificateHeader,
+  zEtsiRegistrationCertificateHeader,
+  zEtsiRegistrationCertificatePayload,
+  zFunkeRegistrationCertificateHeader,
+  zFunkeRegistrationCertificatePayload,
+} from './validation/z-registration-certificate'
+import {
+  fetchX509CertificateChain,
+  getX509CertificateThumbprint,
+  validateX509CertificateChain,
+  type X509CertificateChainFetcher,
+} from './x509CertificateChain'
+
+export type RegistrationCertificate =
+  | { typ: 'rc-wrp+jwt'; payload: EtsiRegistrationCertificatePayload }
+  | { typ: 'rc-rp+jwt'; payload: FunkeRegistrationCertificatePayload }
+
+export type ParsedRegistrationCertificate = RegistrationCertificate & { header: RegistrationCertificateHeader }
+
+/**
+ * Returns the credentials a relying party is registered to request as a DCQL query, to compare it with or narrow
+ * the DCQL query of an authorization request
+ */
+export const getRegistrationCertificateDcqlQuery = ({ payload }: RegistrationCertificate): DcqlQuery =>
+  ({
+    credentials: payload.credentials ?? [],
+    credential_sets: payload.credential_sets,
+  }) as DcqlQuery
+
+/**
+ * Options for checking the status of registration certificates that contain a `status` claim
+ */
+export type RegistrationCertificateStatusOptions = {
+  /**
+   * Fetches the referenced status list token, defaults to using `fetch`
+   */
+  fetchStatusList?: TokenStatusListFetcher
+
+  /**
+   * Whether a revoked or suspended registration certificate results in an error (`reject`),
+   * or is only reported in the `registrationCertificateStatus` of the result (`flag`).
+   *
+   * @default 'reject'
+   */
+  onRevokedOrSuspended?: 'reject' | 'flag'
+}
+
+const verifyJwtSignature = async (agentContext: AgentContext, jwt: Jwt, certificate: X509Certificate) => {
+  const [protectedHeader, payload, signature] = jwt.serializedJwt.split('.')
+  const { verified } = await agentContext.dependencyManager.resolve(Kms.KeyManagementApi).verify({
+    key: { publicJwk: certificate.publicJwk.toJson() },
+    algorithm: jwt.header.alg as Kms.KnownJwaSignatureAlgorithm,
+    signature: TypedArrayEncoder.fromBase64(signature),
+    data: TypedArrayEncoder.fromString(`${protectedHeader}.${payload}`),
+  })
+
+  return verified
+}
+
+type ReportErrorOptions = {
+  verifierAttestationIndex?: number
+  reportError: (error: VerifierAttestationError) => void
+}
+
+const decodeRegistrationCertificateJwt = (
+  serializedJwt: string,
+  { verifierAttestationIndex, reportError }: ReportErrorOptions
+) => {
+  try {
+    return Jwt.fromSerializedJwt(serializedJwt)
+  } catch (error) {
+    reportError(
+      new InvalidRegistrationCertificateError('invalid_jwt', 'Registration certificate is not a valid JWT', {
+        verifierAttestationIndex,
+        cause: error,
+      })
+    )
+    return undefined
+  }
+}
+
+/**
+ * Parses the header and payload of a registration certificate based on its `typ`. When the header is invalid,
+ * the error is reported but the registration certificate is still returned if its payload is valid.
+ */
+const parseRegistrationCertificateJwt = (
+  jwt: Jwt,
+  { verifierAttestationIndex, reportError }: ReportErrorOptions
+): ParsedRegistrationCertificate | undefined => {
+  const [headerSchema, payloadSchema] =
+    jwt.header.typ === 'rc-wrp+jwt'
+      ? [zEtsiRegistrationCertificateHeader, zEtsiRegistrationCertificatePayload]
+      : jwt.header.typ === 'rc-rp+jwt'
+        ? [zFunkeRegistrationCertificateHeader, zFunkeRegistrationCertificatePayload]
+        : []
+
+  if (!headerSchema || !payloadSchema) {
+    reportError(
+      new UnsupportedVerifierAttestationError(
+        'unsupported_typ',
+        `only 'rc-wrp+jwt' and 'rc-rp+jwt' are supported as header typ. Request included: ${jwt.header.typ}`,
+        { verifierAttestationIndex, details: { typ: jwt.header.typ } }
+      )
+    )
+    return undefined
+  }
+
+  const parsedHeader = headerSchema.safeParse(jwt.header)
+  if (!parsedHeader.success) {
+    reportError(
+      new InvalidRegistrationCertificateError('invalid_header', z.prettifyError(parsedHeader.error), {
+        verifierAttestationIndex,
+        details: { issues: parsedHeader.error.issues },
+        cause: parsedHeader.error,
+      })
+    )
+  }
+
+  const parsedPayload = payloadSchema.safeParse(jwt.payload.toJson())
+  if (!parsedPayload.success) {
+    reportError(
+      new InvalidRegistrationCertificateError('invalid_payload', z.prettifyError(parsedPayload.error), {
+        verifierAttestationIndex,
+        details: { issues: parsedPayload.error.issues },
+        cause: parsedPayload.error,
+      })
+    )
+    return undefined
+  }
+
+  return {
+    typ: jwt.header.typ,
+    header: parsedHeader.data ?? jwt.header,
+    payload: parsedPayload.data,
+  } as ParsedRegistrationCertificate
+}
+
+/**
+ * Decodes a registration certificate according to ETSI TS 119 475 (`rc-wrp+jwt`) or the SPRIN-D architecture
+ * (`rc-rp+jwt`), and validates its header and payload. The signature, certificate chain, time based claims and
+ * status of the registration certificate are not verified.
+ *
+ * @throws {UnsupportedVerifierAttestationError} if the `typ` is not supported
+ * @throws {InvalidRegistrationCertificateError} if the JWT, header or payload is invalid
+ */
+export const parseRegistrationCertificate = (serializedJwt: string): ParsedRegistrationCertificate => {
+  const reportErrorOptions: ReportErrorOptions = {
+    reportError: (error) => {
+      throw error
+    },
+  }
+
+  const jwt = decodeRegistrationCertificateJwt(serializedJwt, reportErrorOptions) as Jwt
+  return parseRegistrationCertificateJwt(jwt, reportErrorOptions) as ParsedRegistrationCertificate
+}
+
+type VerifyRegistrationCertificateJwtOptions = ReportErrorOptions & {
+  serializedJwt: string
+  trustedCertificates?: Array<string>
+  allowUntrustedSigned?: boolean
+  fetchCertificateChain?: X509CertificateChainFetcher
+  timeContext?: TimeContext
+}
+
+/**
+ * Verifies the signature of a registration certificate according to ETSI TS 119 475 or
+ * https://bmi.usercontent.opencode.de/eudi-wallet/eidas-2.0-architekturkonzept/flows/Wallet-Relying-Party-Authentication/#registration-certificate
+ * and parses its header and payload. The registration certificate is only returned if its payload is valid.
+ */
+export const verifyRegistrationCertificateJwt = async (
+  agentContext: AgentContext,
+  {
+    serializedJwt,
+    trustedCertificates,
+    allowUntrustedSigned,
+    fetchCertificateChain,
+    timeContext,
+    verifierAttestationIndex,
+    reportError,
+  }: VerifyRegistrationCertificateJwtOptions
+): Promise<{
+  isValidButUntrusted: boolean
+  isValidAndTrusted: boolean
+  registrationCertificateChain?: Array<X509Certificate>
+  registrationCertificate?: RegistrationCertificate
+}> => {
+  let isValidButUntrusted = false
+  let isValidAndTrusted = false
+
+  const jwt = decodeRegistrationCertificateJwt(serializedJwt, { verifierAttestationIndex, reportError })
+  if (!jwt) return { isValidButUntrusted, isValidAndTrusted }
+
+  // The certificate that signed the registration certificate is either included (x5c), referenced (x5u), or
+  // identified by its thumbprint (x5t#s256) in which case it must be one of the trusted certificates
+  let certificateChain = jwt.header.x5c as Array<string> | undefined
+  let isCertificateErrorReported = false
+  if (!certificateChain && typeof jwt.header.x5u === 'string') {
+    try {
+      certificateChain = await fetchX509CertificateChain(jwt.header.x5u, fetchCertificateChain)
+    } catch (error) {
+      reportError(
+        new InvalidRegistrationCertificateError(
+          'certificate_unresolvable',
+          `Certificate chain of the registration certificate could not be fetched from '${jwt.header.x5u}'`,
+          { verifierAttestationIndex, details: { x5u: jwt.header.x5u }, cause: error }
+        )
+      )
+      isCertificateErrorReported = true
+    }
+  }
+
+  const thumbprint = jwt.header['x5t#s256']
+  if (!certificateChain && typeof thumbprint === 'string') {
+    const trustAnchors =
+      trustedCertificates ?? agentContext.dependencyManager.resolve(X509ModuleConfig).trustedCertificates ?? []
+    const trustedCertificate = trustAnchors
+      .map((certificate) => X509Certificate.fromEncodedCertificate(certificate))
+      .find((certificate) => getX509CertificateThumbprint(certificate) === thumbprint)
+    if (trustedCertificate) certificateChain = [trustedCertificate.toString('base64')]
+  }
+
+  if (
+    certificateChain &&
+    typeof thumbprint === 'string' &&
+    getX509CertificateThumbprint(certificateChain[0]) !== thumbprint
+  ) {
+    reportError(
+      new InvalidRegistrationCertificateError(
+        'thumbprint_mismatch',
+        'The x5t#s256 thumbprint does not match the certificate that signed the registration certificate',
+        { verifierAttestationIndex, details: { thumbprint } }
+      )
+    )
+    certificateChain = undefined
+    isCertificateErrorReported = true
+  }
+
+  let registrationCertificateChain: Array<X509Certificate> | undefined
+  if (!certificateChain && !isCertificateErrorReported) {
+    reportError(
+      new InvalidRegistrationCertificateError(
+        'certificate_missing',
+        'The certificate that signed the registration certificate is not included (x5c), referenced (x5u) or one of the trusted certificates (x5t#s256)',
+        { verifierAttestationIndex }
+      )
+    )
+  }
+
+  if (certificateChain) {
+    const verificationDate = getNow(timeContext)
+    const validateCertificateChain = (trustAnchors?: Array<string>) =>
+      validateX509CertificateChain(agentContext, {
+        certificateChain,
+        trustedCertificates: trustAnchors,
+        verificationDate,
+      })
+
+    let chain: Array<X509Certificate> | undefined
+    let untrustedError: unknown
+    try {
+      chain = await validateCertificateChain(trustedCertificates)
+    } catch (error) {
+      untrustedError = error
+    }
+
+    if (!chain && allowUntrustedSigned) {
+      // Only the chain itself is validated, with its last certificate as trust anchor
+      try {
+        chain = await validateCertificateChain([certificateChain[certificateChain.length - 1]])
+      } catch (error) {
+        reportError(
+          new InvalidRegistrationCertificateError(
+            'invalid_certificate_chain',
+            'The certificate chain of the registration certificate is invalid',
+            { verifierAttestationIndex, cause: error }
+          )
+        )
+      }
+    } else if (!chain) {
+      reportError(
+        new InvalidRegistrationCertificateError(
+          'untrusted_signature',
+          'The registration certificate is not signed by a trusted certificate',
+          { verifierAttestationIndex, cause: untrustedError }
+        )
+      )
+    }
+
+    if (chain) {
+      let isSignatureValid = false
+      let signatureError: unknown
+      try {
+        isSignatureValid = await verifyJwtSignature(agentContext, jwt, chain[chain.length - 1])
+      } catch (error) {
+        signatureError = error
+      }
+
+      if (!isSignatureValid) {
+        reportError(
+          new InvalidRegistrationCertificateError(
+            'invalid_signature',
+            'The signature of the registration certificate is invalid',
+            { verifierAttestationIndex, details: { alg: jwt.header.alg }, cause: signatureError }
+          )
+        )
+      } else if (untrustedError === undefined) {
+        isValidAndTrusted = true
+        registrationCertificateChain = chain
+      } else {
+        isValidButUntrusted = true
+      }
+    }
+  }
+
+  const parsed = parseRegistrationCertificateJwt(jwt, { verifierAttestationIndex, reportError })
+  if (!parsed) return { isValidButUntrusted, isValidAndTrusted, registrationCertificateChain }
+
+  return {
+    isValidButUntrusted,
+    isValidAndTrusted,
+    registrationCertificateChain,
+    registrationCertificate: { typ: parsed.typ, payload: parsed.payload } as RegistrationCertificate,
+  }
+}
+
+type ValidateRegistrationCertificateOptions = ReportErrorOptions & {
+  registrationCertificate: RegistrationCertificate
+  trustedCertificates?: Array<string>
+
+  /**
+   * Whether the registration certificate is only valid but untrusted, in which case an untrusted status list is accepted as well
+   */
+  isValidButUntrusted: boolean
+  timeContext?: TimeContext
+  statusOptions?: RegistrationCertificateStatusOptions
+}
+
+/**
+ * Validates the `iat`, `nbf` and `exp` of a registration certificate, and checks its status if it contains a `status` claim
+ *
+ * @returns the status of the registration certificate, if it contains a `status` claim
+ */
+export const validateRegistrationCertificate = async (
+  agentContext: AgentContext,
+  {
+    registrationCertificate: { payload: registrationCertificate },
+    trustedCertificates,
+    isValidButUntrusted,
+    timeContext,
+    statusOptions,
+    verifierAttestationIndex,
+    reportError,
+  }: ValidateRegistrationCertificateOptions
+): Promise<TokenStatusResult | undefined> => {
+  if (registrationCertificate.iat && isInFuture(fromNumericDate(registrationCertificate.iat), timeContext)) {
+    reportError(
+      new InvalidRegistrationCertificateError(
+        'issued_in_future',
+        'Issued at timestamp of the registration certificate is in the future',
+        { verifierAttestationIndex, details: { iat: registrationCertificate.iat } }
+      )
+    )
+  }
+
+  if (registrationCertificate.nbf && isInFuture(fromNumericDate(registrationCertificate.nbf), timeContext)) {
+    reportError(
+      new InvalidRegistrationCertificateError('not_yet_valid', 'The registration certificate is not yet valid', {
+        verifierAttestationIndex,
+        details: { nbf: registrationCertificate.nbf },
+      })
+    )
+  }
+
+  if (registrationCertificate.exp && isInPast(fromNumericDate(registrationCertificate.exp), timeContext)) {
+    reportError(
+      new InvalidRegistrationCertificateError('expired', 'The registration certificate is expired', {
+        verifierAttestationIndex,
+        details: { exp: registrationCertificate.exp },
+      })
+    )
+  }
+
+  let registrationCertificateStatus: TokenStatusResult | undefined
+  if (registrationCertificate.status) {
+    try {
+      registrationCertificateStatus = await resolveTokenStatus(agentContext, {
+        reference: registrationCertificate.status.status_list,
+        fetchStatusList: statusOptions?.fetchStatusList,
+        timeContext,
+        trustedCertificates,
+        allowUntrustedSigned: isValidButUntrusted,
+      })
+    } catch (error) {
+      reportError(
+        new RegistrationCertificateStatusError(
+          'status_unverifiable',
+          'The status of the registration certificate could not be verified',
+          { verifierAttestationIndex, details: { ...registrationCertificate.status.status_list }, cause: error }
+        )
+      )
+    }
+
+    const onRevokedOrSuspended = statusOptions?.onRevokedOrSuspended ?? 'reject'
+    if (onRevokedOrSuspended === 'reject' && registrationCertificateStatus?.status === 'invalid') {
+      reportError(
+        new RegistrationCertificateStatusError('status_invalid', 'The registration certificate is revoked', {
+          verifierAttestationIndex,
+          details: { ...registrationCertificateStatus },
+        })
+      )
+    } else if (onRevokedOrSuspended === 'reject' && registrationCertificateStatus?.status === 'suspended') {
+      reportError(
+        new RegistrationCertificateStatusError('status_suspended', 'The registration certificate is suspended', {
+          verifierAttestationIndex,
+          details: { ...registrationCertificateStatus },
+        })
+      )
+    }
+  }
+
+  return registrationCertificateStatus
+}
@@ -0,0 +1,137 @@
+import type { X509Certificate } from '@credo-ts/core'
+import { Name, X509Certificate as PeculiarX509Certificate } from '@peculiar/x509'
+import { getX509CertificateThumbprint } from './x509CertificateChain'
+
+// Attribute types that are used in ETSI EN 319 412, including the ones already known by name to @peculiar/x509
+const attributeTypes = {
+  CN: '2.5.4.3',
+  L: '2.5.4.7',
+  ST: '2.5.4.8',
+  O: '2.5.4.10',
+  OU: '2.5.4.11',
+  C: '2.5.4.6',
+  DC: '0.9.2342.19200300.100.1.25',
+  E: '1.2.840.113549.1.9.1',
+  SN: '2.5.4.4',
+  organizationIdentifier: '2.5.4.97',
+  serialNumber: '2.5.4.5',
+  givenName: '2.5.4.42',
+  surname: '2.5.4.4',
+  title: '2.5.4.12',
+  organizationName: '2.5.4.10',
+  organizationalUnitName: '2.5.4.11',
+  commonName: '2.5.4.3',
+  countryName: '2.5.4.6',
+  localityName: '2.5.4.7',
+  stateOrProvinceName: '2.5.4.8',
+}
+
+// Attribute type names are case insensitive (RFC 4514), while @peculiar/x509 only knows them in a single case
+const extraAttributeTypes = Object.fromEntries(
+  Object.entries(attributeTypes).flatMap(([name, oid]) => [
+    [name, oid],
+    [name.toLowerCase(), oid],
+    [name.toUpperCase(), oid],
+  ])
+)
+
+/**
+ * Identity of a relying party, or of the intermediary acting on its behalf, as found in a registration certificate
+ */
+export interface RelyingPartyIdentity {
+  /**
+   * Distinguished Name or semantic identifier according to ETSI EN 319 412-1 (e.g. `VATDE-123456789`)
+   */
+  subject: string
+  name?: string
+}
+
+const ORGANIZATION_IDENTIFIER = '2.5.4.97'
+const SERIAL_NUMBER = '2.5.4.5'
+
+// Case insensitive comparison with insignificant whitespace removed, comparable to the caseIgnoreMatch of RFC 4518
+const normalizeAttributeValue = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase()
+
+const parseDistinguishedName = (distinguishedName: string | Name) => {
+  // Re-parsed from the DER encoding, so the attribute types are named the same regardless of the input
+  const name = new Name(
+    (typeof distinguishedName === 'string'
+      ? new Name(distinguishedName, extraAttributeTypes)
+      : distinguishedName
+    ).toArrayBuffer()
+  )
+
+  return name
+    .toJSON()
+    .flatMap((relativeDistinguishedName) =>
+      Object.entries(relativeDistinguishedName).flatMap(([type, values]) =>
+        values.map((value) => `${type}=${normalizeAttributeValue(value)}`)
+      )
+    )
+    .sort()
+}
+
+/**
+ * Compares two Distinguished Names structurally, so that the order of the attributes and differences in
+ * whitespace, case and string encoding do not lead to a mismatch.
+ */
+export function isDistinguishedNameEqual(first: string | Name, second: string | Name) {
+  try {
+    const firstAttributes = parseDistinguishedName(first)
+    const secondAttributes = parseDistinguishedName(second)
+
+    return (
+      firstAttributes.length === secondAttributes.length &&
+      firstAttributes.every((attribute, index) => attribute === secondAttributes[index])
+    )
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Matches the subject of a registration certificate against the certificate of the relying party. The subject
+ * is either a Distinguished Name, or a semantic identifier according to ETSI EN 319 412-1 (e.g. `VATDE-123456789`),
+ * which must be present as `organizationIdentifier` or `serialNumber` in the subject of the certificate.
+ */
+export function isRelyingPartySubjectMatch(certificate: X509Certificate, subject: string) {
+  const subjectName = new PeculiarX509Certificate(certificate.rawCertificate).subjectName
+  if (subject.includes('=')) return isDistinguishedNameEqual(subjectName, subject)
+
+  const semanticIdentifiers = [...subjectName.getField(ORGANIZATION_IDENTIFIER), ...subjectName.getField(SERIAL_NUMBER)]
+  return semanticIdentifiers.some((identifier) => identifier.trim() === subject.trim())
+}
+
+/**
+ * Compares the subjects of two registration certificates, which are either Distinguished Names, compared
+ * structurally, or semantic identifiers according to ETSI EN 319 412-1 (e.g. `VATDE-123456789`).
+ */
+export function isRelyingPartySubjectEqual(first: string, second: string) {
+  if (first.includes('=') && second.includes('=')) return isDistinguishedNameEqual(first, second)
+
+  return first.trim() === second.trim()
+}
+
+/**
+ * Checks that the certificate that signed the authorization request matches the client identifier, for the
+ * client identifier prefixes that bind the client identifier to a certificate. Other prefixes always match.
+ */
+export function isCertificateBoundToClientId(
+  certificate: X509Certificate,
+  { clientIdPrefix, clientId }: { clientIdPrefix: string; clientId: string }
+) {
+  // The effective client id includes the prefix, but a legacy client_id_scheme is passed separately
+  const identifier = clientId.startsWith(`${clientIdPrefix}:`) ? clientId.slice(clientIdPrefix.length + 1) : clientId
+
+  if (clientIdPrefix === 'x509_san_dns') {
+    return certificate.sanDnsNames.some((dnsName) => dnsName.toLowerCase() === identifier.toLowerCase())
+  }
+  if (clientIdPrefix === 'x509_san_uri') {
+    return certificate.sanUriNames.includes(identifier)
+  }
+  if (clientIdPrefix === 'x509_hash') {
+    return getX509CertificateThumbprint(certificate) === identifier
+  }
+
+  return true
+}
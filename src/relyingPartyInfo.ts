@@ -0,0 +1,216 @@
+import type { RegistrationCertificate } from './registrationCertificate'
+import type { RelyingPartyIdentity } from './relyingPartyIdentity'
+import type { VerifierAttestationVerificationResult } from './verifyOpenid4VpAuthorizationRequest'
+
+export interface LocalizedText {
+  value: string
+
+  /**
+   * The language of the value, if known
+   */
+  lang?: string
+}
+
+/**
+ * A value of the relying party info, together with the registration certificate it is taken from
+ */
+export interface RelyingPartyInfoValue<T> {
+  value: T
+
+  /**
+   * Whether the registration certificate the value is taken from is trusted. When `false`, the registration
+   * certificate is validly signed, but not by a trusted certificate, which should be indicated to the user.
+   */
+  trusted: boolean
+
+  verifierAttestationIndex: number
+}
+
+export interface RelyingPartyContact {
+  website?: string
+  email?: string
+  phone?: string
+  supportUri?: string
+}
+
+export interface RelyingPartyInfo {
+  /**
+   * Whether every value is taken from a trusted registration certificate
+   */
+  trusted: boolean
+
+  subject: RelyingPartyInfoValue<string>
+
+  /**
+   * The intermediary that requests the credentials on behalf of the relying party
+   */
+  intermediary?: RelyingPartyInfoValue<RelyingPartyIdentity>
+
+  name?: RelyingPartyInfoValue<string>
+  country?: RelyingPartyInfoValue<string>
+  service?: RelyingPartyInfoValue<LocalizedText>
+  purpose?: RelyingPartyInfoValue<LocalizedText>
+  contact?: RelyingPartyInfoValue<RelyingPartyContact>
+  privacyPolicy?: RelyingPartyInfoValue<string>
+  publicBody: RelyingPartyInfoValue<boolean>
+  entitlements: RelyingPartyInfoValue<Array<string>>
+}
+
+export interface GetRelyingPartyInfoOptions {
+  /**
+   * Languages of the user in order of preference, as BCP 47 language tags (e.g. `navigator.languages`).
+   * When no value matches one of the languages, the English value is used, or otherwise the first value.
+   *
+   * @default ['en']
+   */
+  preferredLanguages?: Array<string>
+}
+
+// The values of the relying party info as found in a single registration certificate
+interface RelyingPartyInfoFieldValues {
+  subject: string
+  name?: string
+  country?: string
+  service?: LocalizedText
+  purpose?: LocalizedText
+  contact?: RelyingPartyContact
+  privacyPolicy?: string
+  publicBody: boolean
+  entitlements: Array<string>
+  intermediary?: RelyingPartyIdentity
+}
+
+const languageMatches = (lang: string, preferredLanguage: string) => {
+  const [language, preferred] = [lang.toLowerCase(), preferredLanguage.toLowerCase()]
+  return language === preferred || language.split('-')[0] === preferred.split('-')[0]
+}
+
+/**
+ * Picks the value that best matches the preferred languages. An exact match of the language tag is
+ * preferred over a match on only the primary language subtag, e.g. `de-AT` for `de-DE`.
+ */
+const pickLocalizedText = (values: Array<LocalizedText> | undefined, preferredLanguages: Array<string>) => {
+  if (!values || values.length === 0) return undefined
+
+  for (const preferredLanguage of [...preferredLanguages, 'en']) {
+    const exactMatch = values.find((v) => v.lang?.toLowerCase() === preferredLanguage.toLowerCase())
+    if (exactMatch) return exactMatch
+
+    const languageMatch = values.find((v) => v.lang && languageMatches(v.lang, preferredLanguage))
+    if (languageMatch) return languageMatch
+  }
+
+  return values[0]
+}
+
+const getRelyingPartyInfoFieldValues = (
+  { typ, payload }: RegistrationCertificate,
+  preferredLanguages: Array<string>
+): RelyingPartyInfoFieldValues => {
+  if (typ === 'rc-wrp+jwt') {
+    return {
+      subject: payload.sub,
+      name: payload.name,
+      country: payload.country,
+      service: pickLocalizedText(payload.srv_description, preferredLanguages),
+      purpose: pickLocalizedText(payload.purpose, preferredLanguages),
+      contact:
+        payload.info_uri || payload.support_uri
+          ? { website: payload.info_uri, supportUri: payload.support_uri }
+          : undefined,
+      privacyPolicy: payload.privacy_policy,
+      publicBody: payload.public_body,
+      entitlements: payload.entitlements,
+    }
+  }
+
+  return {
+    subject: payload.sub,
+    service: pickLocalizedText(
+      payload.services.map(({ lang, name }) => ({ lang, value: name })),
+      preferredLanguages
+    ),
+    purpose: pickLocalizedText(
+      payload.purpose?.map(({ lang, locale, name }) => ({ lang: lang ?? locale, value: name })),
+      preferredLanguages
+    ),
+    contact: { website: payload.contact.website, email: payload.contact['e-mail'], phone: payload.contact.phone },
+    privacyPolicy: payload.privacy_policy,
+    publicBody: payload.public_body,
+    entitlements: payload.entitlements.filter((entitlement): entitlement is string => typeof entitlement === 'string'),
+  }
+}
+
+/**
+ * Creates a localized view of the relying party from the verified registration certificates, to show the
+ * user who is requesting the credentials and why.
+ *
+ * Only registration certificates that are valid and for which no errors were found are used. Every value is
+ * taken from a trusted registration certificate if one contains it, and from an untrusted one otherwise. When the
+ * request is signed by an intermediary, the view describes the intermediated relying party, which receives the
+ * credentials, and the intermediary is included as `intermediary`.
+ *
+ * @returns `undefined` if none of the results contains a valid registration certificate
+ */
+export function getRelyingPartyInfo(
+  results: Array<VerifierAttestationVerificationResult>,
+  { preferredLanguages = ['en'] }: GetRelyingPartyInfoOptions = {}
+): RelyingPartyInfo | undefined {
+  const verifiedResults = results.filter(
+    (result) =>
+      result.registrationCertificate &&
+      result.relyingParty &&
+      (result.isValidAndTrusted || result.isValidButUntrusted) &&
+      result.errors.length === 0
+  )
+
+  // Values are only combined from registration certificates of the same relying party
+  const relyingParty = (verifiedResults.find((result) => result.intermediary) ?? verifiedResults[0])?.relyingParty
+  const validResults = verifiedResults
+    .filter((result) => result.relyingParty?.subject === relyingParty?.subject)
+    // Stable sort, so trusted registration certificates are used first, in the order of the request
+    .sort((a, b) => Number(b.isValidAndTrusted) - Number(a.isValidAndTrusted))
+
+  const sources = validResults.map((result) => ({
+    values: {
+      ...getRelyingPartyInfoFieldValues(result.registrationCertificate as RegistrationCertificate, preferredLanguages),
+      intermediary: result.intermediary && { subject: result.intermediary.subject, name: result.intermediary.name },
+    },
+    trusted: result.isValidAndTrusted,
+    verifierAttestationIndex: result.verifierAttestationIndex,
+  }))
+
+  const pick = <K extends keyof RelyingPartyInfoFieldValues>(key: K) => {
+    const source = sources.find((s) => s.values[key] !== undefined)
+    if (!source) return undefined
+
+    return {
+      value: source.values[key] as NonNullable<RelyingPartyInfoFieldValues[K]>,
+      trusted: source.trusted,
+      verifierAttestationIndex: source.verifierAttestationIndex,
+    }
+  }
+
+  const subject = pick('subject')
+  const publicBody = pick('publicBody')
+  const entitlements = pick('entitlements')
+  if (!subject || !publicBody || !entitlements) return undefined
+
+  const info: Omit<RelyingPartyInfo, 'trusted'> = {
+    subject,
+    intermediary: pick('intermediary'),
+    name: pick('name'),
+    country: pick('country'),
+    service: pick('service'),
+    purpose: pick('purpose'),
+    contact: pick('contact'),
+    privacyPolicy: pick('privacyPolicy'),
+    publicBody,
+    entitlements,
+  }
+
+  return {
+    trusted: Object.values(info).every((value) => !value || value.trusted),
+    ...info,
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * The clock used when validating time based claims, such as the `iat`, `nbf` and `exp` of a registration
+ * certificate or the `execution_date` of a TS12 payment.
+ */
+export interface TimeContext {
+  /**
+   * Returns the current time
+   *
+   * @default () => new Date()
+   */
+  now?: () => Date
+
+  /**
+   * Allowed difference in seconds between the clock of the wallet and the clock of the issuer of the
+   * validated data, to prevent devices with a drifting clock from failing hard
+   *
+   * @default 60
+   */
+  clockSkewInSeconds?: number
+}
+
+const DEFAULT_CLOCK_SKEW_IN_SECONDS = 60
+
+const resolveTimeContext = (timeContext?: TimeContext) => ({
+  now: (timeContext?.now?.() ?? new Date()).getTime(),
+  clockSkew: (timeContext?.clockSkewInSeconds ?? DEFAULT_CLOCK_SKEW_IN_SECONDS) * 1000,
+})
+
+export const getNow = (timeContext?: TimeContext) => new Date(resolveTimeContext(timeContext).now)
+
+/**
+ * Whether the date lies in the past, also when taking the allowed clock skew into account
+ */
+export const isInPast = (date: Date, timeContext?: TimeContext) => {
+  const { now, clockSkew } = resolveTimeContext(timeContext)
+  return date.getTime() < now - clockSkew
+}
+
+/**
+ * Whether the date lies in the future, also when taking the allowed clock skew into account
+ */
+export const isInFuture = (date: Date, timeContext?: TimeContext) => {
+  const { now, clockSkew } = resolveTimeContext(timeContext)
+  return date.getTime() > now + clockSkew
+}
+
+/**
+ * Converts a JWT `NumericDate` in seconds since the epoch to a `Date`
+ */
+export const fromNumericDate = (numericDate: number) => new Date(numericDate * 1000)
+
+/**
+ * Converts a `Date` to a JWT `NumericDate` in seconds since the epoch
+ */
+export const toNumericDate = (date: Date) => Math.floor(date.getTime() / 1000)
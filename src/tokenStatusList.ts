@@ -0,0 +1,263 @@
+import {
+  type AgentContext,
+  JwsService,
+  Jwt,
+  Kms,
+  TypedArrayEncoder,
+  X509Certificate,
+  X509ModuleConfig,
+  X509Service,
+} from '@credo-ts/core'
+import { Decoder, Encoder, Tag } from 'cbor-x'
+import { unzlibSync } from 'fflate'
+import z from 'zod'
+import { TokenStatusListError } from './error'
+import { fromNumericDate, getNow, isInPast, type TimeContext } from './timeContext'
+
+// Token Status List according to https://datatracker.ietf.org/doc/draft-ietf-oauth-status-list/
+
+export const zStatusListReference = z.object({
+  idx: z.number().int().nonnegative(),
+  uri: z.url(),
+})
+
+export const zStatusClaim = z
+  .object({
+    status_list: zStatusListReference,
+  })
+  .loose()
+
+export type StatusListReference = z.infer<typeof zStatusListReference>
+
+/**
+ * Fetches the status list token from the `uri` of a status list reference. A `string` is
+ * handled as a `statuslist+jwt`, a `Uint8Array` as a `statuslist+cwt`.
+ */
+export type TokenStatusListFetcher = (uri: string) => Promise<string | Uint8Array>
+
+/**
+ * The status types registered in the Token Status List specification. Other values
+ * are application specific.
+ */
+export type TokenStatus = 'valid' | 'invalid' | 'suspended' | 'application_specific'
+
+export type TokenStatusResult = StatusListReference & {
+  status: TokenStatus
+  value: number
+}
+
+export interface ResolveTokenStatusOptions {
+  reference: StatusListReference
+  fetchStatusList?: TokenStatusListFetcher
+
+  /**
+   * The trust anchors for the certificate chain of the status list token. Defaults to the trusted
+   * certificates configured on the X509 module.
+   */
+  trustedCertificates?: Array<string>
+
+  /**
+   * Only verify the signature of the status list token against its own `x5c`/`x5chain`, without
+   * requiring a trusted certificate.
+   */
+  allowUntrustedSigned?: boolean
+
+  /**
+   * The clock used to check the expiry of the status list token
+   */
+  timeContext?: TimeContext
+}
+
+const zStatusList = z.object({
+  bits: z.union([z.literal(1), z.literal(2), z.literal(4), z.literal(8)]),
+  lst: z.string().or(z.instanceof(Uint8Array)),
+})
+
+const zStatusListTokenPayload = z
+  .object({
+    sub: z.string(),
+    iat: z.number(),
+    exp: z.number().optional(),
+    status_list: zStatusList,
+  })
+  .loose()
+
+// CWT claim keys and COSE header labels used by the status list token
+const CWT_CLAIM_SUB = 2
+const CWT_CLAIM_EXP = 4
+const CWT_CLAIM_IAT = 6
+const CWT_CLAIM_STATUS_LIST = 65534
+const COSE_HEADER_ALG = 1
+const COSE_HEADER_TYP = 16
+const COSE_HEADER_X5CHAIN = 33
+const COSE_SIGN1_TAG = 18
+
+const coseAlgorithms: Record<number, Kms.KnownJwaSignatureAlgorithm> = {
+  [-7]: 'ES256',
+  [-35]: 'ES384',
+  [-36]: 'ES512',
+  [-8]: 'EdDSA',
+}
+
+const cborDecoder = new Decoder({ mapsAsObjects: false })
+const cborEncoder = new Encoder({ tagUint8Array: false, useRecords: false })
+
+const defaultFetchStatusList: TokenStatusListFetcher = async (uri) => {
+  const response = await fetch(uri, {
+    headers: { Accept: 'application/statuslist+jwt, application/statuslist+cwt' },
+  })
+  if (!response.ok) {
+    throw new TokenStatusListError(`Failed to fetch status list token from ${uri}. Status ${response.status}`)
+  }
+
+  const contentType = response.headers.get('Content-Type')
+  if (contentType?.startsWith('application/statuslist+jwt')) return response.text()
+  if (contentType?.startsWith('application/statuslist+cwt')) return new Uint8Array(await response.arrayBuffer())
+
+  throw new TokenStatusListError(`Unsupported content type '${contentType}' for status list token from ${uri}`)
+}
+
+const verifyStatusListJwt = async (
+  agentContext: AgentContext,
+  { token, trustedCertificates, allowUntrustedSigned }: Omit<ResolveTokenStatusOptions, 'reference'> & { token: string }
+) => {
+  const jwt = Jwt.fromSerializedJwt(token)
+  if (jwt.header.typ !== 'statuslist+jwt') {
+    throw new TokenStatusListError(`Expected status list token typ 'statuslist+jwt', received '${jwt.header.typ}'`)
+  }
+
+  const { isValid } = await agentContext.dependencyManager.resolve(JwsService).verifyJws(agentContext, {
+    jws: token,
+    trustedCertificates: allowUntrustedSigned ? (jwt.header.x5c ?? []) : trustedCertificates,
+  })
+  if (!isValid) {
+    throw new TokenStatusListError('Invalid signature on status list token')
+  }
+
+  return zStatusListTokenPayload.parse(jwt.payload.toJson())
+}
+
+const verifyStatusListCwt = async (
+  agentContext: AgentContext,
+  {
+    token,
+    trustedCertificates,
+    allowUntrustedSigned,
+    timeContext,
+  }: Omit<ResolveTokenStatusOptions, 'reference'> & { token: Uint8Array }
+) => {
+  let coseSign1 = cborDecoder.decode(token)
+  if (coseSign1 instanceof Tag && coseSign1.tag === COSE_SIGN1_TAG) coseSign1 = coseSign1.value
+  if (!Array.isArray(coseSign1) || coseSign1.length !== 4) {
+    throw new TokenStatusListError('Status list token is not a valid COSE_Sign1 structure')
+  }
+
+  const [protectedHeaderBytes, unprotectedHeader, payloadBytes, signature] = coseSign1 as [
+    Uint8Array,
+    Map<number, unknown>,
+    Uint8Array,
+    Uint8Array,
+  ]
+  const protectedHeader: Map<number, unknown> =
+    protectedHeaderBytes.length > 0 ? cborDecoder.decode(protectedHeaderBytes) : new Map()
+
+  if (protectedHeader.get(COSE_HEADER_TYP) !== 'application/statuslist+cwt') {
+    throw new TokenStatusListError(
+      `Expected status list token typ 'application/statuslist+cwt', received '${protectedHeader.get(COSE_HEADER_TYP)}'`
+    )
+  }
+
+  const algorithm = coseAlgorithms[protectedHeader.get(COSE_HEADER_ALG) as number]
+  if (!algorithm) {
+    throw new TokenStatusListError(`Unsupported COSE algorithm '${protectedHeader.get(COSE_HEADER_ALG)}'`)
+  }
+
+  const x5chain = protectedHeader.get(COSE_HEADER_X5CHAIN) ?? unprotectedHeader.get(COSE_HEADER_X5CHAIN)
+  const certificateChain = (Array.isArray(x5chain) ? x5chain : [x5chain]).filter(
+    (certificate): certificate is Uint8Array => certificate instanceof Uint8Array
+  )
+  if (certificateChain.length === 0) {
+    throw new TokenStatusListError('Status list token does not contain an x5chain')
+  }
+
+  const encodedCertificateChain = certificateChain.map((certificate) => TypedArrayEncoder.toBase64(certificate))
+
+  // Same fallback as the JwsService uses for the statuslist+jwt
+  const trustAnchors = allowUntrustedSigned
+    ? encodedCertificateChain
+    : (trustedCertificates ?? agentContext.dependencyManager.resolve(X509ModuleConfig).trustedCertificates ?? [])
+  if (trustAnchors.length === 0) {
+    throw new TokenStatusListError('No trusted certificates configured to verify the status list token')
+  }
+
+  await X509Service.validateCertificateChain(agentContext, {
+    certificateChain: encodedCertificateChain,
+    trustedCertificates: trustAnchors,
+    verificationDate: getNow(timeContext),
+  })
+
+  const leafCertificate = X509Certificate.fromEncodedCertificate(encodedCertificateChain[0])
+  const { verified } = await agentContext.dependencyManager.resolve(Kms.KeyManagementApi).verify({
+    key: { publicJwk: leafCertificate.publicJwk.toJson() },
+    algorithm,
+    signature,
+    data: cborEncoder.encode(['Signature1', protectedHeaderBytes, new Uint8Array(), payloadBytes]),
+  })
+  if (!verified) {
+    throw new TokenStatusListError('Invalid signature on status list token')
+  }
+
+  const claims: Map<number, unknown> = cborDecoder.decode(payloadBytes)
+  const statusList = claims.get(CWT_CLAIM_STATUS_LIST)
+  return zStatusListTokenPayload.parse({
+    sub: claims.get(CWT_CLAIM_SUB),
+    iat: claims.get(CWT_CLAIM_IAT),
+    exp: claims.get(CWT_CLAIM_EXP),
+    status_list: statusList instanceof Map ? Object.fromEntries(statusList) : statusList,
+  })
+}
+
+const toTokenStatus = (value: number): TokenStatus => {
+  if (value === 0x00) return 'valid'
+  if (value === 0x01) return 'invalid'
+  if (value === 0x02) return 'suspended'
+  return 'application_specific'
+}
+
+/**
+ * Resolves the status of a referenced token from a Token Status List. The status list token is
+ * fetched, its signature verified and the status at `idx` read from the decompressed list.
+ */
+export async function resolveTokenStatus(
+  agentContext: AgentContext,
+  { reference, fetchStatusList = defaultFetchStatusList, ...options }: ResolveTokenStatusOptions
+): Promise<TokenStatusResult> {
+  const token = await fetchStatusList(reference.uri)
+
+  const payload =
+    typeof token === 'string'
+      ? await verifyStatusListJwt(agentContext, { ...options, token })
+      : await verifyStatusListCwt(agentContext, { ...options, token })
+
+  if (payload.sub !== reference.uri) {
+    throw new TokenStatusListError(
+      `Subject of the status list token '${payload.sub}' does not match the referenced uri '${reference.uri}'`
+    )
+  }
+
+  if (payload.exp && isInPast(fromNumericDate(payload.exp), options.timeContext)) {
+    throw new TokenStatusListError('Status list token is expired')
+  }
+
+  const { bits, lst } = payload.status_list
+  const statusList = unzlibSync(typeof lst === 'string' ? TypedArrayEncoder.fromBase64(lst) : lst)
+
+  const byteIndex = Math.floor((reference.idx * bits) / 8)
+  if (byteIndex >= statusList.length) {
+    throw new TokenStatusListError(`Index ${reference.idx} is out of bounds for the status list`)
+  }
+
+  const value = (statusList[byteIndex] >> ((reference.idx * bits) % 8)) & ((1 << bits) - 1)
+
+  return { ...reference, value, status: toTokenStatus(value) }
+}
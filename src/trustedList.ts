@@ -0,0 +1,411 @@
+import { type BinaryLike, createHash, createSign, createVerify, type KeyLike } from 'node:crypto'
+import { TypedArrayEncoder } from '@credo-ts/core'
+import { X509Certificate as PeculiarX509Certificate } from '@peculiar/x509'
+import { DOMParser } from '@xmldom/xmldom'
+import { createOptionalCallbackFunction, type HashAlgorithm, type SignatureAlgorithm, SignedXml } from 'xml-crypto'
+import { TrustedListError } from './error'
+import { isInFuture, isInPast, type TimeContext } from './timeContext'
+
+// Trusted lists according to ETSI TS 119 612, and the lists of trusted entities of the EUDI Wallet
+// ecosystem according to ETSI TS 119 602, which use the same XML structure
+
+const SERVICE_TYPE_PREFIX = 'http://uri.etsi.org/TrstSvc/Svctype'
+const LIST_OF_TRUSTED_ENTITIES_SERVICE_TYPE_PREFIX = 'http://uri.etsi.org/19602/SvcType'
+const SERVICE_STATUS_PREFIX = 'http://uri.etsi.org/TrstSvc/TrustedList/Svcstatus'
+
+/**
+ * Service types of the services in a trusted list. Other values can be used to filter as well.
+ */
+export const TrustedListServiceType = {
+  QualifiedCertificateAuthority: `${SERVICE_TYPE_PREFIX}/CA/QC`,
+  CertificateAuthority: `${SERVICE_TYPE_PREFIX}/CA/PKC`,
+  PidProvider: `${LIST_OF_TRUSTED_ENTITIES_SERVICE_TYPE_PREFIX}/PID/Issuance`,
+  WalletProvider: `${LIST_OF_TRUSTED_ENTITIES_SERVICE_TYPE_PREFIX}/WalletSolution/Issuance`,
+  PubEaaProvider: `${LIST_OF_TRUSTED_ENTITIES_SERVICE_TYPE_PREFIX}/PubEAA/Issuance`,
+  AccessCertificateAuthority: `${LIST_OF_TRUSTED_ENTITIES_SERVICE_TYPE_PREFIX}/WRPAC/Issuance`,
+  Registrar: `${LIST_OF_TRUSTED_ENTITIES_SERVICE_TYPE_PREFIX}/WRPRC/Issuance`,
+} as const
+
+/**
+ * Statuses of the services in a trusted list. Other values can be used to filter as well.
+ */
+export const TrustedListServiceStatus = {
+  Granted: `${SERVICE_STATUS_PREFIX}/granted`,
+  Withdrawn: `${SERVICE_STATUS_PREFIX}/withdrawn`,
+  RecognisedAtNationalLevel: `${SERVICE_STATUS_PREFIX}/recognisedatnationallevel`,
+  DeprecatedAtNationalLevel: `${SERVICE_STATUS_PREFIX}/deprecatedatnationallevel`,
+} as const
+
+export interface TrustedListService {
+  /**
+   * The name of the trust service provider, in English if available
+   */
+  trustServiceProvider?: string
+
+  /**
+   * The name of the service, in English if available
+   */
+  serviceName?: string
+  serviceType: string
+
+  /**
+   * The current status of the service. The status history is not included.
+   */
+  status: string
+  statusStartingTime: Date
+
+  /**
+   * The base64 encoded certificates that identify the service
+   */
+  certificates: Array<string>
+}
+
+/**
+ * Pointer to another trusted list, as included in the list of trusted lists
+ */
+export interface TrustedListPointer {
+  location: string
+  territory?: string
+  mimeType?: string
+
+  /**
+   * The base64 encoded certificates that may sign the referenced trusted list
+   */
+  certificates: Array<string>
+}
+
+export interface TrustedList {
+  type: string
+  territory: string
+  sequenceNumber: number
+  issueDate: Date
+  nextUpdate?: Date
+  pointers: Array<TrustedListPointer>
+  services: Array<TrustedListService>
+
+  /**
+   * The base64 encoded certificate that signed the trusted list
+   */
+  signingCertificate: string
+}
+
+export interface ParseTrustedListOptions {
+  /**
+   * Certificates that may sign the trusted list. For the list of trusted lists these are published in the
+   * Official Journal of the EU, for a national trusted list they are included in the list of trusted lists.
+   */
+  signingCertificates: Array<string>
+
+  /**
+   * The clock and allowed clock skew used to validate that the next update of the trusted list is not in the past
+   */
+  timeContext?: TimeContext
+}
+
+const ECDSA_SIGNATURE_ALGORITHMS = {
+  'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha256': 'SHA256',
+  'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha384': 'SHA384',
+  'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha512': 'SHA512',
+}
+const SHA384_HASH_ALGORITHM = 'http://www.w3.org/2001/04/xmldsig-more#sha384'
+
+// ECDSA signature values in XMLDSig are the concatenation of r and s (RFC 4050)
+const createEcdsaSignatureAlgorithm = (algorithmName: string, hash: string) =>
+  class implements SignatureAlgorithm {
+    getSignature = createOptionalCallbackFunction((signedInfo: BinaryLike, privateKey: KeyLike) =>
+      createSign(hash)
+        .update(signedInfo)
+        .sign({ key: privateKey as string, dsaEncoding: 'ieee-p1363' }, 'base64')
+    )
+
+    verifySignature = createOptionalCallbackFunction((material: string, key: KeyLike, signatureValue: string) =>
+      createVerify(hash)
+        .update(material)
+        .verify({ key: key as string, dsaEncoding: 'ieee-p1363' }, signatureValue, 'base64')
+    )
+
+    getAlgorithmName = () => algorithmName
+  }
+
+class Sha384 implements HashAlgorithm {
+  getHash = (xml: string) => createHash('sha384').update(xml, 'utf8').digest('base64')
+  getAlgorithmName = () => SHA384_HASH_ALGORITHM
+}
+
+const parseXml = (xml: string) => {
+  const errors: Array<string> = []
+  const document = new DOMParser({
+    errorHandler: { error: (message) => errors.push(message), fatalError: (message) => errors.push(message) },
+  }).parseFromString(xml, 'text/xml')
+
+  if (errors.length > 0 || !document?.documentElement) {
+    throw new TrustedListError(`Trusted list is not valid XML. ${errors.join(', ')}`)
+  }
+  return document.documentElement
+}
+
+const getChildElements = (element: Element, localName: string) =>
+  Array.from(element.childNodes).filter(
+    (node): node is Element => node.nodeType === node.ELEMENT_NODE && (node as Element).localName === localName
+  )
+
+const getElements = (element: Element | undefined, ...path: Array<string>) => {
+  let elements = element ? [element] : []
+  for (const localName of path) elements = elements.flatMap((e) => getChildElements(e, localName))
+  return elements
+}
+
+const getText = (element: Element | undefined, ...path: Array<string>) =>
+  getElements(element, ...path)[0]?.textContent?.trim() || undefined
+
+const getCertificates = (element: Element | undefined, ...path: Array<string>) =>
+  getElements(element, ...path, 'DigitalId', 'X509Certificate')
+    .map((certificate) => certificate.textContent?.replace(/\s/g, ''))
+    .filter((certificate): certificate is string => !!certificate)
+
+// Multilingual names are picked in English, or otherwise the first name is used
+const getName = (element: Element | undefined, ...path: Array<string>) => {
+  const names = getElements(element, ...path, 'Name')
+  const name = names.find((n) => n.getAttribute('xml:lang')?.toLowerCase().startsWith('en')) ?? names[0]
+  return name?.textContent?.trim() || undefined
+}
+
+const getDate = (element: Element | undefined, ...path: Array<string>) => {
+  const value = getText(element, ...path)
+  if (!value) return undefined
+
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) throw new TrustedListError(`Trusted list contains an invalid date '${value}'`)
+  return date
+}
+
+const toBase64Certificate = (certificate: string) =>
+  TypedArrayEncoder.toBase64(new Uint8Array(new PeculiarX509Certificate(certificate).rawData))
+
+/**
+ * Verifies the enveloped XMLDSig signature of the trusted list, and returns the signed part of the list
+ */
+const verifyTrustedListSignature = (xml: string, root: Element, signingCertificates: Array<string>) => {
+  const signatureElement = getElements(root, 'Signature').find(
+    (element) => element.namespaceURI === 'http://www.w3.org/2000/09/xmldsig#'
+  )
+  if (!signatureElement) throw new TrustedListError('Trusted list is not signed')
+
+  const trustedSigningCertificates = signingCertificates.map(toBase64Certificate)
+  const keyInfoCertificate = getText(signatureElement, 'KeyInfo', 'X509Data', 'X509Certificate')?.replace(/\s/g, '')
+  if (keyInfoCertificate && !trustedSigningCertificates.includes(toBase64Certificate(keyInfoCertificate))) {
+    throw new TrustedListError('Trusted list is not signed by one of the signing certificates')
+  }
+
+  // When the signature does not include the signing certificate, every signing certificate is tried
+  for (const signingCertificate of keyInfoCertificate ? [keyInfoCertificate] : trustedSigningCertificates) {
+    const signedXml = new SignedXml({ publicCert: new PeculiarX509Certificate(signingCertificate).toString('pem') })
+    signedXml.HashAlgorithms[SHA384_HASH_ALGORITHM] = Sha384
+    for (const [algorithmName, hash] of Object.entries(ECDSA_SIGNATURE_ALGORITHMS)) {
+      signedXml.SignatureAlgorithms[algorithmName] = createEcdsaSignatureAlgorithm(algorithmName, hash)
+    }
+    signedXml.loadSignature(signatureElement)
+
+    let isValid: boolean
+    try {
+      isValid = signedXml.checkSignature(xml)
+    } catch (error) {
+      throw new TrustedListError('Signature of the trusted list could not be verified', { cause: error })
+    }
+    if (!isValid) continue
+
+    // Only the content that is covered by the signature is used, so the whole list must be signed
+    const signedDocument = signedXml.getReferences().find((reference) => !reference.uri)?.signedReference
+    if (!signedDocument) throw new TrustedListError('Signature of the trusted list does not cover the whole list')
+
+    return { signingCertificate: toBase64Certificate(signingCertificate), signedDocument }
+  }
+
+  throw new TrustedListError('Signature of the trusted list is invalid')
+}
+
+/**
+ * Parses a trusted list according to ETSI TS 119 612, such as the EU list of trusted lists or a national
+ * trusted list, after verifying its XMLDSig signature.
+ *
+ * @throws {TrustedListError} if the trusted list is invalid, not signed by one of the signing certificates, or expired
+ */
+export function parseTrustedList(
+  xml: string | Uint8Array,
+  { signingCertificates, timeContext }: ParseTrustedListOptions
+): TrustedList {
+  const serializedXml = typeof xml === 'string' ? xml : TypedArrayEncoder.toUtf8String(xml)
+  const { signingCertificate, signedDocument } = verifyTrustedListSignature(
+    serializedXml,
+    parseXml(serializedXml),
+    signingCertificates
+  )
+
+  const root = parseXml(signedDocument)
+  if (root.localName !== 'TrustServiceStatusList') {
+    throw new TrustedListError(`Expected a 'TrustServiceStatusList', found '${root.localName}'`)
+  }
+
+  const [schemeInformation] = getElements(root, 'SchemeInformation')
+  const type = getText(schemeInformation, 'TSLType')
+  const territory = getText(schemeInformation, 'SchemeTerritory')
+  const sequenceNumber = Number(getText(schemeInformation, 'TSLSequenceNumber'))
+  const issueDate = getDate(schemeInformation, 'ListIssueDateTime')
+  const nextUpdate = getDate(schemeInformation, 'NextUpdate', 'dateTime')
+  if (!type || !territory || !Number.isInteger(sequenceNumber) || !issueDate) {
+    throw new TrustedListError(
+      'Scheme information of the trusted list must contain the TSL type, scheme territory, sequence number and issue date'
+    )
+  }
+
+  if (nextUpdate && isInPast(nextUpdate, timeContext)) {
+    throw new TrustedListError(
+      `Trusted list of '${territory}' is expired, its next update was due at ${nextUpdate.toISOString()}`
+    )
+  }
+
+  const pointers = getElements(schemeInformation, 'PointersToOtherTSL', 'OtherTSLPointer').flatMap((pointer) => {
+    const location = getText(pointer, 'TSLLocation')
+    if (!location) return []
+
+    const [otherInformation] = getElements(pointer, 'AdditionalInformation')
+    return [
+      {
+        location,
+        territory: getText(otherInformation, 'OtherInformation', 'SchemeTerritory'),
+        mimeType: getText(otherInformation, 'OtherInformation', 'MimeType'),
+        certificates: getCertificates(pointer, 'ServiceDigitalIdentities', 'ServiceDigitalIdentity'),
+      },
+    ]
+  })
+
+  const services = getElements(root, 'TrustServiceProviderList', 'TrustServiceProvider').flatMap(
+    (trustServiceProvider) =>
+      getElements(trustServiceProvider, 'TSPServices', 'TSPService', 'ServiceInformation').flatMap((service) => {
+        const serviceType = getText(service, 'ServiceTypeIdentifier')
+        const status = getText(service, 'ServiceStatus')
+        const statusStartingTime = getDate(service, 'StatusStartingTime')
+        if (!serviceType || !status || !statusStartingTime) return []
+
+        return [
+          {
+            trustServiceProvider: getName(trustServiceProvider, 'TSPInformation', 'TSPName'),
+            serviceName: getName(service, 'ServiceName'),
+            serviceType,
+            status,
+            statusStartingTime,
+            certificates: getCertificates(service, 'ServiceDigitalIdentity'),
+          },
+        ]
+      })
+  )
+
+  return { type, territory, sequenceNumber, issueDate, nextUpdate, pointers, services, signingCertificate }
+}
+
+export interface LoadTrustedListsOptions {
+  listOfTrustedLists: string | Uint8Array
+
+  /**
+   * Certificates that may sign the list of trusted lists, as published in the Official Journal of the EU
+   */
+  listOfTrustedListsSigningCertificates: Array<string>
+
+  /**
+   * The trusted lists referenced by the list of trusted lists, e.g. the national trusted lists
+   */
+  trustedLists: Array<string | Uint8Array>
+
+  timeContext?: TimeContext
+}
+
+/**
+ * Parses the list of trusted lists and the trusted lists it references. Each trusted list must be signed by one
+ * of the certificates in the list of trusted lists for its territory.
+ *
+ * @throws {TrustedListError} if one of the lists is invalid or not signed by a certificate for its territory
+ */
+export function loadTrustedLists({
+  listOfTrustedLists: listOfTrustedListsXml,
+  listOfTrustedListsSigningCertificates,
+  trustedLists: trustedListsXml,
+  timeContext,
+}: LoadTrustedListsOptions): { listOfTrustedLists: TrustedList; trustedLists: Array<TrustedList> } {
+  const listOfTrustedLists = parseTrustedList(listOfTrustedListsXml, {
+    signingCertificates: listOfTrustedListsSigningCertificates,
+    timeContext,
+  })
+
+  const trustedLists = trustedListsXml.map((xml) => {
+    const trustedList = parseTrustedList(xml, {
+      signingCertificates: listOfTrustedLists.pointers.flatMap((pointer) => pointer.certificates),
+      timeContext,
+    })
+
+    const territoryCertificates = listOfTrustedLists.pointers
+      .filter((pointer) => pointer.territory === trustedList.territory)
+      .flatMap((pointer) => pointer.certificates.map(toBase64Certificate))
+    if (!territoryCertificates.includes(trustedList.signingCertificate)) {
+      throw new TrustedListError(
+        `Trusted list of '${trustedList.territory}' is not signed by a certificate for its territory`
+      )
+    }
+
+    return trustedList
+  })
+
+  return { listOfTrustedLists, trustedLists }
+}
+
+export interface TrustedListCertificateFilter {
+  /**
+   * Only include the certificates of services with one of these service types
+   */
+  serviceTypes?: Array<string>
+
+  /**
+   * Only include the certificates of services of which the current status is one of these statuses
+   *
+   * @default [TrustedListServiceStatus.Granted]
+   */
+  statuses?: Array<string>
+
+  /**
+   * Only include the certificates of trusted lists of these territories
+   */
+  territories?: Array<string>
+
+  /**
+   * The clock used to exclude services of which the current status only starts in the future
+   */
+  timeContext?: TimeContext
+}
+
+/**
+ * Collects the certificates of the services in the trusted lists that match the filter, to be used as trust
+ * anchors, e.g. as `trustedCertificates` or `trustedAccessCertificates` of `verifyOpenid4VpAuthorizationRequest`.
+ *
+ * @returns the base64 encoded certificates, without duplicates
+ */
+export function getTrustedListCertificates(
+  trustedLists: Array<TrustedList>,
+  {
+    serviceTypes,
+    statuses = [TrustedListServiceStatus.Granted],
+    territories,
+    timeContext,
+  }: TrustedListCertificateFilter = {}
+): Array<string> {
+  const certificates = trustedLists
+    .filter((trustedList) => !territories || territories.includes(trustedList.territory))
+    .flatMap((trustedList) => trustedList.services)
+    .filter(
+      (service) =>
+        (!serviceTypes || serviceTypes.includes(service.serviceType)) &&
+        statuses.includes(service.status) &&
+        !isInFuture(service.statusStartingTime, timeContext)
+    )
+    .flatMap((service) => service.certificates)
+
+  return Array.from(new Set(certificates))
+}
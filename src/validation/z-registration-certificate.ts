@@ -0,0 +1,169 @@
+import { z } from 'zod'
+import { zStatusClaim } from '../tokenStatusList'
+
+// Credential query as used in the registration certificate. This is the DCQL credential query with an
+// optional `id`, as the registration certificate describes what may be requested. The `id` is only
+// needed to reference the credential query from the `credential_sets` of the registration certificate.
+export const zRegistrationCertificateCredential = z.object({
+  id: z.string().optional(),
+  format: z.string(),
+  multiple: z.boolean().default(false),
+  meta: z
+    .object({
+      vct_values: z.array(z.string()).optional(),
+      doctype_value: z.string().optional(),
+      type_values: z.array(z.array(z.string())).optional(),
+    })
+    .optional(),
+  trusted_authorities: z
+    .array(z.object({ type: z.string(), values: z.array(z.string()) }))
+    .nonempty()
+    .optional(),
+  require_cryptographic_holder_binding: z.boolean().default(true),
+  claims: z
+    .array(
+      z.object({
+        id: z.string().optional(),
+        // `null` selects all elements of an array, a number the element at that index
+        path: z.array(z.union([z.string(), z.number().int().nonnegative(), z.null()])).nonempty(),
+        values: z.array(z.union([z.string(), z.number(), z.boolean()])).optional(),
+      })
+    )
+    .nonempty()
+    .optional(),
+  claim_sets: z.array(z.array(z.string())).nonempty().optional(),
+})
+
+// The combinations of the `credentials` of the registration certificate that may be requested, as in DCQL
+export const zRegistrationCertificateCredentialSets = z
+  .array(
+    z.object({
+      options: z.array(z.array(z.string())).nonempty(),
+      required: z.boolean().default(true),
+    })
+  )
+  .nonempty()
+
+const zMultiLanguageString = z.array(z.object({ lang: z.string(), value: z.string() })).nonempty()
+
+// Registration certificate according to the SPRIN-D architecture
+// https://bmi.usercontent.opencode.de/eudi-wallet/eidas-2.0-architekturkonzept/flows/Wallet-Relying-Party-Authentication/#registration-certificate
+export const zFunkeRegistrationCertificateHeader = z
+  .object({
+    typ: z.literal('rc-rp+jwt'),
+    alg: z.string(),
+    // sprin-d did not define this
+    x5u: z.url().optional(),
+    // sprin-d did not define this
+    'x5t#s256': z.string().optional(),
+  })
+  .loose()
+
+export const zFunkeRegistrationCertificatePayload = z
+  .object({
+    credentials: z.array(zRegistrationCertificateCredential),
+    // sprin-d did not define this
+    credential_sets: zRegistrationCertificateCredentialSets.optional(),
+    contact: z.object({
+      website: z.url(),
+      'e-mail': z.email(),
+      phone: z.string(),
+    }),
+    sub: z.string(),
+    // Should be service
+    services: z.array(z.object({ lang: z.string(), name: z.string() })),
+    public_body: z.boolean().default(false),
+    entitlements: z.array(z.any()),
+    provided_attestations: z
+      .array(
+        z.object({
+          format: z.string(),
+          meta: z.any(),
+        })
+      )
+      .optional(),
+    privacy_policy: z.url(),
+    iat: z.number().optional(),
+    nbf: z.number().optional(),
+    exp: z.number().optional(),
+    purpose: z
+      .array(
+        z.object({
+          locale: z.string().optional(),
+          lang: z.string().optional(),
+          name: z.string(),
+        })
+      )
+      .optional(),
+    status: zStatusClaim.optional(),
+  })
+  .loose()
+
+// Registration certificate according to ETSI TS 119 475
+export const zEtsiRegistrationCertificateHeader = z
+  .object({
+    typ: z.literal('rc-wrp+jwt'),
+    alg: z.string(),
+    x5c: z.array(z.string()).nonempty().optional(),
+    x5u: z.url().optional(),
+    'x5t#s256': z.string().optional(),
+  })
+  .loose()
+
+export const zEtsiRegistrationCertificatePayload = z
+  .object({
+    // Identifier of the wallet-relying party, e.g. a semantic identifier according to ETSI EN 319 412-1
+    sub: z.string(),
+    name: z.string(),
+    country: z.string().length(2).optional(),
+    registry_uri: z.url().optional(),
+    srv_description: zMultiLanguageString,
+    entitlements: z.array(z.string()).nonempty(),
+    public_body: z.boolean().default(false),
+    privacy_policy: z.url(),
+    info_uri: z.url().optional(),
+    support_uri: z.url().optional(),
+    supervisory_authority: z
+      .object({
+        uri: z.url().optional(),
+        email: z.email().optional(),
+        phone: z.string().optional(),
+      })
+      .optional(),
+    policy_id: z.array(z.string()).nonempty().optional(),
+    certificate_policy: z.url().optional(),
+    // Only present when the wallet-relying party uses an intermediary, which then signs the authorization request
+    intermediary: z.object({ sub: z.string(), name: z.string().optional() }).optional(),
+    // The intended use. Only present when the wallet-relying party requests attestations
+    intended_use_id: z.string().optional(),
+    purpose: zMultiLanguageString.optional(),
+    credentials: z.array(zRegistrationCertificateCredential).nonempty().optional(),
+    credential_sets: zRegistrationCertificateCredentialSets.optional(),
+    // Only present when the wallet-relying party issues attestations
+    provides_attestations: z
+      .array(
+        z.object({
+          format: z.string(),
+          meta: z.any(),
+        })
+      )
+      .nonempty()
+      .optional(),
+    iat: z.number(),
+    nbf: z.number().optional(),
+    exp: z.number().optional(),
+    status: zStatusClaim.optional(),
+  })
+  .loose()
+
+export const zRegistrationCertificateHeader = z.discriminatedUnion('typ', [
+  zEtsiRegistrationCertificateHeader,
+  zFunkeRegistrationCertificateHeader,
+])
+
+export type RegistrationCertificateCredential = z.infer<typeof zRegistrationCertificateCredential>
+export type FunkeRegistrationCertificateHeader = z.infer<typeof zFunkeRegistrationCertificateHeader>
+export type FunkeRegistrationCertificatePayload = z.infer<typeof zFunkeRegistrationCertificatePayload>
+export type EtsiRegistrationCertificateHeader = z.infer<typeof zEtsiRegistrationCertificateHeader>
+export type EtsiRegistrationCertificatePayload = z.infer<typeof zEtsiRegistrationCertificatePayload>
+export type RegistrationCertificateHeader = z.infer<typeof zRegistrationCertificateHeader>
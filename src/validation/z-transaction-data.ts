@@ -1,23 +1,31 @@
 import { z } from 'zod'
+import type { TimeContext } from '../timeContext'
 import { zFunkeQesTransaction } from './z-transaction-data-funke'
 import {
+  createZGenericPayload,
+  createZPaymentPayload,
+  createZTs12Transaction,
   URN_SCA_GENERIC,
   URN_SCA_PAYMENT,
-  zGenericPayload,
-  zPaymentPayload,
-  zTs12Transaction,
 } from './z-transaction-data-ts12'
 
 export * from './z-transaction-data-funke'
 export * from './z-transaction-data-ts12'
 
-export const zTransactionDataEntry = zTs12Transaction.or(zFunkeQesTransaction)
-export const zTransactionData = z.array(zTransactionDataEntry)
+export const createZTransactionDataEntry = (timeContext?: TimeContext) =>
+  createZTs12Transaction(timeContext).or(zFunkeQesTransaction)
+export const createZTransactionData = (timeContext?: TimeContext) => z.array(createZTransactionDataEntry(timeContext))
+
+export const zTransactionDataEntry = createZTransactionDataEntry()
+export const zTransactionData = createZTransactionData()
 
 export type TransactionDataEntry = z.infer<typeof zTransactionDataEntry>
 export type TransactionData = z.infer<typeof zTransactionDataEntry>
 
-export const ts12BuiltinSchemaValidators = {
-  [URN_SCA_PAYMENT]: zPaymentPayload,
-  [URN_SCA_GENERIC]: zGenericPayload,
-} as const
+export const createTs12BuiltinSchemaValidators = (timeContext?: TimeContext) =>
+  ({
+    [URN_SCA_PAYMENT]: createZPaymentPayload(timeContext),
+    [URN_SCA_GENERIC]: createZGenericPayload(timeContext),
+  }) as const
+
+export const ts12BuiltinSchemaValidators = createTs12BuiltinSchemaValidators()
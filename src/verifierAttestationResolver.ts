@@ -0,0 +1,124 @@
+import z from 'zod'
+import { VerifierAttestationResolverError } from './error'
+
+/**
+ * Resolves the `data` of a verifier attestation that is passed by reference instead of inline
+ * to the serialized JWT.
+ */
+export type VerifierAttestationResolver = (data: Record<string, unknown>) => Promise<string>
+
+export interface CreateVerifierAttestationResolverOptions {
+  /**
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch
+
+  /**
+   * Maximum size in bytes of a fetched verifier attestation
+   *
+   * @default 65536
+   */
+  maxSize?: number
+
+  /**
+   * Time in milliseconds a fetched verifier attestation is cached. Set to `0` to disable caching.
+   *
+   * @default 300000
+   */
+  cacheTtl?: number
+
+  /**
+   * Maximum number of cached verifier attestations, the oldest entry is removed first
+   *
+   * @default 100
+   */
+  maxCacheEntries?: number
+}
+
+const zVerifierAttestationReference = z
+  .object({
+    uri: z.url({ protocol: /^https?$/ }),
+  })
+  .loose()
+
+// application/jwt, or a structured syntax suffix such as application/rc-wrp+jwt
+const jwtContentTypeRegex = /^application\/([\w.-]+\+)?jwt\s*(;|$)/i
+
+const readBody = async (response: Response, maxSize: number) => {
+  const contentLength = Number(response.headers.get('Content-Length'))
+  if (contentLength > maxSize) {
+    throw new VerifierAttestationResolverError(
+      `Verifier attestation of ${contentLength} bytes exceeds ${maxSize} bytes`
+    )
+  }
+  if (!response.body) return ''
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let body = ''
+  let size = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) return body + decoder.decode()
+
+    size += value.byteLength
+    if (size > maxSize) {
+      await reader.cancel()
+      throw new VerifierAttestationResolverError(`Verifier attestation exceeds ${maxSize} bytes`)
+    }
+    body += decoder.decode(value, { stream: true })
+  }
+}
+
+/**
+ * Creates a resolver for verifier attestations that are passed by reference as `{ "uri": "https://..." }`.
+ * The referenced JWT is fetched, its size and content type checked, and the result cached.
+ */
+export function createVerifierAttestationResolver({
+  fetch: fetcher = fetch,
+  maxSize = 65536,
+  cacheTtl = 300000,
+  maxCacheEntries = 100,
+}: CreateVerifierAttestationResolverOptions = {}): VerifierAttestationResolver {
+  const cache = new Map<string, { jwt: string; expiresAt: number }>()
+
+  return async (data) => {
+    const reference = zVerifierAttestationReference.safeParse(data)
+    if (!reference.success) {
+      throw new VerifierAttestationResolverError(
+        `Verifier attestation reference is invalid. ${z.prettifyError(reference.error)}`
+      )
+    }
+    const { uri } = reference.data
+
+    const cached = cache.get(uri)
+    if (cached && cached.expiresAt > Date.now()) return cached.jwt
+    cache.delete(uri)
+
+    const response = await fetcher(uri, { headers: { Accept: 'application/jwt' } })
+    if (!response.ok) {
+      throw new VerifierAttestationResolverError(
+        `Failed to fetch verifier attestation from ${uri}. Status ${response.status}`
+      )
+    }
+
+    const contentType = response.headers.get('Content-Type')
+    if (!contentType || !jwtContentTypeRegex.test(contentType)) {
+      throw new VerifierAttestationResolverError(
+        `Unsupported content type '${contentType}' for verifier attestation from ${uri}`
+      )
+    }
+
+    const jwt = (await readBody(response, maxSize)).trim()
+
+    if (cacheTtl > 0 && maxCacheEntries > 0) {
+      if (cache.size >= maxCacheEntries) {
+        const [oldestUri] = cache.keys()
+        cache.delete(oldestUri)
+      }
+      cache.set(uri, { jwt, expiresAt: Date.now() + cacheTtl })
+    }
+
+    return jwt
+  }
+}
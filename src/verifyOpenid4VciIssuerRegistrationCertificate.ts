@@ -0,0 +1,330 @@
+import { type AgentContext, X509Certificate } from '@credo-ts/core'
+import type { OpenId4VciResolvedCredentialOffer } from '@credo-ts/openid4vc'
+import {
+  InvalidCertificateChainError,
+  RegistrationScopeExceededError,
+  RelyingPartyMismatchError,
+  UnresolvableVerifierAttestationError,
+  UnsupportedCredentialOfferError,
+  type VerifierAttestationError,
+} from './error'
+import {
+  type RegistrationCertificate,
+  type RegistrationCertificateStatusOptions,
+  validateRegistrationCertificate,
+  verifyRegistrationCertificateJwt,
+} from './registrationCertificate'
+import { isRelyingPartySubjectMatch, type RelyingPartyIdentity } from './relyingPartyIdentity'
+import { getNow, type TimeContext } from './timeContext'
+import type { TokenStatusResult } from './tokenStatusList'
+import { createVerifierAttestationResolver, type VerifierAttestationResolver } from './verifierAttestationResolver'
+import { validateX509CertificateChain, type X509CertificateChainFetcher } from './x509CertificateChain'
+
+export type VerifyOpenid4VciIssuerRegistrationCertificateOptions = {
+  resolvedCredentialOffer: OpenId4VciResolvedCredentialOffer
+
+  /**
+   * The registration certificate of the issuer, either as JWT or passed by reference, e.g. `{ "uri": "https://..." }`
+   */
+  registrationCertificate: string | Record<string, unknown>
+
+  /**
+   * Trust anchors for the registration certificate. The `x5c` of the registration certificate may contain
+   * intermediate certificates between the signing certificate and the trust anchor.
+   */
+  trustedCertificates?: Array<string>
+  allowUntrustedSigned?: boolean
+
+  /**
+   * Fetches the certificate chain referenced by the `x5u` header of the registration certificate, defaults to using `fetch`
+   */
+  fetchCertificateChain?: X509CertificateChainFetcher
+
+  /**
+   * Resolves the registration certificate when it is passed by reference. Defaults to a resolver created
+   * with `createVerifierAttestationResolver`, fetching `{ "uri": "https://..." }` references.
+   */
+  resolveRegistrationCertificate?: VerifierAttestationResolver
+
+  /**
+   * Trust anchors for the access certificate of the issuer that signed the issuer metadata. When not provided,
+   * only the structure of the `x5c` chain of the signed metadata is validated, with the last certificate as trust anchor.
+   */
+  trustedAccessCertificates?: Array<string>
+
+  /**
+   * The clock and allowed clock skew used to validate the `iat`, `nbf` and `exp` of the registration
+   * certificate and the validity of the certificate chains
+   */
+  timeContext?: TimeContext
+
+  /**
+   * Whether to throw the first error that is found. When set to `false`, every error that is found
+   * is returned in the `errors` of the result instead.
+   *
+   * @default true
+   */
+  throwOnError?: boolean
+
+  /**
+   * Options for checking the status of the registration certificate if it contains a `status` claim
+   */
+  registrationCertificateStatus?: RegistrationCertificateStatusOptions
+}
+
+export type IssuerRegistrationCertificateVerificationResult = {
+  isValidButUntrusted: boolean
+  isValidAndTrusted: boolean
+
+  /**
+   * The parsed registration certificate, only present if the payload of the registration certificate is valid
+   */
+  registrationCertificate?: RegistrationCertificate
+
+  /**
+   * The issuer described by the registration certificate
+   */
+  issuer?: RelyingPartyIdentity
+
+  /**
+   * The certificate chain used to trust the registration certificate, starting with the trust anchor.
+   * Only present if the registration certificate is trusted.
+   */
+  registrationCertificateChain?: Array<X509Certificate>
+
+  /**
+   * The validated certificate chain of the issuer access certificate that signed the issuer metadata,
+   * starting with the trust anchor
+   */
+  accessCertificateChain?: Array<X509Certificate>
+
+  /**
+   * The status of the registration certificate, only present if the registration certificate contains a `status` claim
+   */
+  registrationCertificateStatus?: TokenStatusResult
+
+  /**
+   * The ids of the offered credential configurations that are not listed in the attestations the
+   * issuer is registered to provide
+   */
+  unregisteredCredentialConfigurationIds: Array<string>
+
+  /**
+   * The errors found while verifying the registration certificate. Always empty when `throwOnError` is enabled.
+   */
+  errors: Array<VerifierAttestationError | UnsupportedCredentialOfferError>
+}
+
+type ProvidedAttestation = {
+  format: string
+  meta?: { vct_values?: unknown; doctype_value?: unknown; type_values?: unknown }
+}
+
+type OfferedCredentialConfiguration = {
+  format: string
+  vct?: string
+  doctype?: string
+  credential_definition?: { type?: Array<string> }
+}
+
+// The legacy SD-JWT VC format identifier is used by issuers that implement older drafts of OpenID4VCI
+const normalizeFormat = (format: string) => (format === 'vc+sd-jwt' ? 'dc+sd-jwt' : format)
+
+// A W3C credential is provided if it has all the types of one of the alternatives of `type_values`, as in DCQL
+const isTypeProvided = (types: Array<string>, typeValues: unknown) =>
+  Array.isArray(typeValues) &&
+  typeValues.some(
+    (providedTypes) => Array.isArray(providedTypes) && providedTypes.every((type) => types.includes(type))
+  )
+
+const isProvidedAttestation = (
+  { format, vct, doctype, credential_definition }: OfferedCredentialConfiguration,
+  providedAttestation: ProvidedAttestation
+) => {
+  if (normalizeFormat(format) !== normalizeFormat(providedAttestation.format)) return false
+
+  const meta = providedAttestation.meta ?? {}
+  if (vct) return Array.isArray(meta.vct_values) && meta.vct_values.includes(vct)
+  if (doctype) return meta.doctype_value === doctype
+  if (format === 'jwt_vc_json' || format === 'ldp_vc') {
+    return isTypeProvided(credential_definition?.type ?? [], meta.type_values)
+  }
+
+  // A credential configuration of which the type can not be identified can not be matched against the registration
+  return false
+}
+
+const defaultResolveRegistrationCertificate = createVerifierAttestationResolver()
+
+/**
+ * Verifies the registration certificate of an OpenID4VCI credential issuer, and checks that every offered
+ * credential configuration is listed in the attestations the issuer is registered to provide (`provided_attestations`
+ * or `provides_attestations` of the registration certificate). The registration certificate is bound to the issuer
+ * through the access certificate that signed the issuer metadata.
+ *
+ * Errors of the registration certificate are reported without a `verifierAttestationIndex`.
+ */
+export const verifyOpenid4VciIssuerRegistrationCertificate = async (
+  agentContext: AgentContext,
+  {
+    resolvedCredentialOffer: { metadata, offeredCredentialConfigurations },
+    registrationCertificate: registrationCertificateData,
+    trustedCertificates,
+    allowUntrustedSigned,
+    fetchCertificateChain,
+    resolveRegistrationCertificate = defaultResolveRegistrationCertificate,
+    trustedAccessCertificates,
+    timeContext,
+    throwOnError = true,
+    registrationCertificateStatus: statusOptions,
+  }: VerifyOpenid4VciIssuerRegistrationCertificateOptions
+): Promise<IssuerRegistrationCertificateVerificationResult> => {
+  const errors: Array<VerifierAttestationError | UnsupportedCredentialOfferError> = []
+  const reportError = (error: VerifierAttestationError | UnsupportedCredentialOfferError) => {
+    if (throwOnError) throw error
+    errors.push(error)
+  }
+
+  let serializedJwt: string
+  if (typeof registrationCertificateData === 'string') {
+    serializedJwt = registrationCertificateData
+  } else {
+    try {
+      serializedJwt = await resolveRegistrationCertificate(registrationCertificateData)
+    } catch (error) {
+      reportError(
+        new UnresolvableVerifierAttestationError(
+          'unresolvable_reference',
+          'Registration certificate passed by reference could not be resolved',
+          { details: { data: registrationCertificateData }, cause: error }
+        )
+      )
+      return {
+        isValidButUntrusted: false,
+        isValidAndTrusted: false,
+        unregisteredCredentialConfigurationIds: [],
+        errors,
+      }
+    }
+  }
+
+  const { registrationCertificate, ...verifiedJwt } = await verifyRegistrationCertificateJwt(agentContext, {
+    serializedJwt,
+    trustedCertificates,
+    allowUntrustedSigned,
+    fetchCertificateChain,
+    timeContext,
+    reportError,
+  })
+  if (!registrationCertificate) return { ...verifiedJwt, unregisteredCredentialConfigurationIds: [], errors }
+
+  const { payload } = registrationCertificate
+  const issuer: RelyingPartyIdentity = {
+    subject: payload.sub,
+    name: registrationCertificate.typ === 'rc-wrp+jwt' ? registrationCertificate.payload.name : undefined,
+  }
+
+  // The issuer metadata must be signed, as the access certificate that signed it identifies the issuer
+  let accessCertificateChain: Array<X509Certificate> | undefined
+  const signer = metadata.signedCredentialIssuer?.signer
+  if (!signer) {
+    reportError(
+      new UnsupportedCredentialOfferError(
+        'unsigned_issuer_metadata',
+        'Issuer metadata must be signed for the registration certificate',
+        { details: { credentialIssuer: metadata.credentialIssuer.credential_issuer } }
+      )
+    )
+  } else if (signer.method !== 'x5c') {
+    reportError(
+      new UnsupportedCredentialOfferError(
+        'unsupported_issuer_metadata_signer',
+        'x5c is only supported for registration certificate',
+        { details: { method: signer.method } }
+      )
+    )
+  } else {
+    const { x5c } = signer
+    const issuerCert = X509Certificate.fromEncodedCertificate(x5c[0])
+
+    try {
+      accessCertificateChain = await validateX509CertificateChain(agentContext, {
+        certificateChain: x5c,
+        trustedCertificates: trustedAccessCertificates ?? [x5c[x5c.length - 1]],
+        verificationDate: getNow(timeContext),
+      })
+    } catch (error) {
+      reportError(
+        new InvalidCertificateChainError(
+          'invalid_access_certificate_chain',
+          'Certificate chain of the issuer access certificate is invalid',
+          { cause: error }
+        )
+      )
+    }
+
+    if (!isRelyingPartySubjectMatch(issuerCert, payload.sub)) {
+      reportError(
+        new RelyingPartyMismatchError(
+          'subject_mismatch',
+          `Subject in the certificate of the issuer metadata: '${issuerCert.subject}' is not equal to the subject of the registration certificate: '${payload.sub}'`,
+          {
+            details: { certificateSubject: issuerCert.subject, registrationCertificateSubject: payload.sub },
+          }
+        )
+      )
+    }
+  }
+
+  const registrationCertificateStatus = await validateRegistrationCertificate(agentContext, {
+    registrationCertificate,
+    trustedCertificates,
+    isValidButUntrusted: verifiedJwt.isValidButUntrusted,
+    timeContext,
+    statusOptions,
+    reportError,
+  })
+
+  // ETSI TS 119 475 uses `provides_attestations`, while SPRIN-D uses `provided_attestations`
+  const providedAttestations: Array<ProvidedAttestation> =
+    (registrationCertificate.typ === 'rc-wrp+jwt'
+      ? registrationCertificate.payload.provides_attestations
+      : registrationCertificate.payload.provided_attestations) ?? []
+
+  const unregisteredCredentialConfigurationIds: Array<string> = []
+  for (const [credentialConfigurationId, credentialConfiguration] of Object.entries(offeredCredentialConfigurations)) {
+    const offeredCredentialConfiguration = credentialConfiguration as OfferedCredentialConfiguration
+    if (
+      providedAttestations.some((attestation) => isProvidedAttestation(offeredCredentialConfiguration, attestation))
+    ) {
+      continue
+    }
+
+    unregisteredCredentialConfigurationIds.push(credentialConfigurationId)
+    reportError(
+      new RegistrationScopeExceededError(
+        'attestation_not_provided',
+        `Offered credential configuration '${credentialConfigurationId}' is not listed in the attestations the issuer is registered to provide`,
+        {
+          details: {
+            credentialConfigurationId,
+            format: offeredCredentialConfiguration.format,
+            vct: offeredCredentialConfiguration.vct,
+            doctype: offeredCredentialConfiguration.doctype,
+            type: offeredCredentialConfiguration.credential_definition?.type,
+          },
+        }
+      )
+    )
+  }
+
+  return {
+    ...verifiedJwt,
+    registrationCertificate,
+    issuer,
+    accessCertificateChain,
+    registrationCertificateStatus,
+    unregisteredCredentialConfigurationIds,
+    errors,
+  }
+}
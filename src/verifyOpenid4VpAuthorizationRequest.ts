@@ -1,184 +1,735 @@
-import { type AgentContext, type DcqlQuery, JwsService, Jwt, X509Certificate } from '@credo-ts/core'
+import { type AgentContext, type DcqlQuery, X509Certificate } from '@credo-ts/core'
 import type { OpenId4VpResolvedAuthorizationRequest } from '@credo-ts/openid4vc'
-import z from 'zod'
-import { isDcqlQueryEqualOrSubset } from './isDcqlQueryEqualOrSubset'
+import { type EntitlementPolicy, evaluateEntitlementPolicy } from './entitlementPolicy'
+import {
+  EntitlementPolicyError,
+  InvalidCertificateChainError,
+  RegistrationCertificateRequiredError,
+  RegistrationScopeExceededError,
+  RelyingPartyMismatchError,
+  UnresolvableVerifierAttestationError,
+  UnsupportedAuthorizationRequestError,
+  UnsupportedVerifierAttestationError,
+  type VerifierAttestationError,
+} from './error'
+import { type DcqlScopeOptions, getDcqlQueryScopeViolations } from './isDcqlQueryEqualOrSubset'
+import { convertPresentationDefinitionToDcqlQuery } from './presentationExchange'
+import {
+  getRegistrationCertificateDcqlQuery,
+  type RegistrationCertificate,
+  type RegistrationCertificateStatusOptions,
+  validateRegistrationCertificate,
+  verifyRegistrationCertificateJwt,
+} from './registrationCertificate'
+import {
+  isCertificateBoundToClientId,
+  isRelyingPartySubjectEqual,
+  isRelyingPartySubjectMatch,
+  type RelyingPartyIdentity,
+} from './relyingPartyIdentity'
+import { getNow, type TimeContext } from './timeContext'
+import type { TokenStatusResult } from './tokenStatusList'
+import { createVerifierAttestationResolver, type VerifierAttestationResolver } from './verifierAttestationResolver'
+import { validateX509CertificateChain, type X509CertificateChainFetcher } from './x509CertificateChain'
 
 export type VerifyAuthorizationRequestOptions = {
   resolvedAuthorizationRequest: OpenId4VpResolvedAuthorizationRequest
+
+  /**
+   * Trust anchors for the registration certificates. The `x5c` of a registration certificate may contain
+   * intermediate certificates between the signing certificate and the trust anchor.
+   */
   trustedCertificates?: Array<string>
   allowUntrustedSigned?: boolean
+
+  /**
+   * Fetches the certificate chain referenced by the `x5u` header of a registration certificate, defaults to using `fetch`
+   */
+  fetchCertificateChain?: X509CertificateChainFetcher
+
+  /**
+   * Resolves verifier attestations of which the `data` is passed by reference instead of inline. Defaults
+   * to a resolver created with `createVerifierAttestationResolver`, fetching `{ "uri": "https://..." }` references.
+   */
+  resolveVerifierAttestation?: VerifierAttestationResolver
+
+  /**
+   * Trust anchors for the relying party access certificate that signed the authorization request. When not
+   * provided, only the structure of the `x5c` chain of the request is validated, with the last certificate as trust anchor.
+   */
+  trustedAccessCertificates?: Array<string>
+
+  /**
+   * The clock and allowed clock skew used to validate the `iat`, `nbf` and `exp` of the registration
+   * certificates and the validity of the certificate chains
+   */
+  timeContext?: TimeContext
+
+  /**
+   * Policy for the entitlements and public body status of the relying party. When provided, relying parties with
+   * unknown entitlements, or that request credential types reserved for other relying parties, are rejected. A
+   * restricted credential type that is not covered by a valid registration certificate is always rejected.
+   */
+  entitlementPolicy?: EntitlementPolicy
+
+  /**
+   * Whether to throw the first error that is found. When set to `false`, all verifier attestations
+   * are verified and every error that is found is returned in the `errors` of the results instead.
+   *
+   * @default true
+   */
+  throwOnError?: boolean
+
+  /**
+   * Options for checking the status of registration certificates that contain a `status` claim
+   */
+  registrationCertificateStatus?: RegistrationCertificateStatusOptions
+
+  /**
+   * The credential types for which the relying party must have a registration certificate. When one of these
+   * types is requested, e.g. the PID, the request is rejected unless a valid registration certificate covers
+   * the credential query.
+   */
+  requireRegistrationCertificate?: RegistrationCertificateRequirement
+
+  /**
+   * The SD-JWT VC type metadata of the requested credential types. A requested `vct` that `extends` a `vct`
+   * in the registration certificate is within the registration scope.
+   */
+  vctTypeMetadata?: DcqlScopeOptions['vctTypeMetadata']
 }
 
-export const verifyOpenid4VpAuthorizationRequest = async (
+export type RegistrationCertificateRequirement = {
+  /**
+   * SD-JWT VC types, matched against the `vct_values` of the requested credentials
+   */
+  vcts?: Array<string>
+
+  /**
+   * mdoc document types, matched against the `doctype_value` of the requested credentials
+   */
+  doctypes?: Array<string>
+}
+
+/**
+ * - `valid_and_trusted`: every verifier attestation is valid and trusted, and every requested credential is referenced
+ *   by a verifier attestation
+ * - `valid_but_untrusted`: every verifier attestation is valid, but at least one is not trusted, or a requested
+ *   credential is not referenced by the `credential_ids` of any verifier attestation
+ * - `absent`: the request does not contain verifier attestations, and no registration certificate is required
+ * - `invalid`: a verifier attestation is invalid, or a required registration certificate is missing
+ */
+export type AuthorizationRequestVerificationVerdict = 'valid_and_trusted' | 'valid_but_untrusted' | 'absent' | 'invalid'
+
+export type AuthorizationRequestVerificationResult = {
+  verdict: AuthorizationRequestVerificationVerdict
+
+  /**
+   * The result for every entry in the `verifier_info`, or `verifier_attestations`, of the request
+   */
+  verifierAttestations: Array<VerifierAttestationVerificationResult>
+
+  /**
+   * The ids of the requested credential queries that are not referenced by the `credential_ids` of any verifier
+   * attestation, and so are not checked against a registration certificate. Empty when the request does not
+   * contain verifier attestations.
+   */
+  unreferencedCredentialQueryIds: Array<string>
+
+  /**
+   * Requested credentials that require a registration certificate, or that are restricted by the entitlement
+   * policy, but are not covered by a valid one. Always empty when `throwOnError` is enabled.
+   */
+  errors: Array<RegistrationCertificateRequiredError | EntitlementPolicyError>
+}
+
+export type VerifierAttestationVerificationResult = {
+  /**
+   * Index of the entry in the `verifier_info`, or `verifier_attestations`, of the authorization request
+   */
+  verifierAttestationIndex: number
+
+  /**
+   * The `credential_ids` of the entry in the `verifier_info`, only present if the entry only applies to these
+   * credential queries of the DCQL query
+   */
+  credentialIds?: Array<string>
+
+  isValidButUntrusted: boolean
+  isValidAndTrusted: boolean
+  x509RegistrationCertificate?: X509Certificate
+
+  /**
+   * The parsed registration certificate, only present if the payload of the registration certificate is valid.
+   * Use `getRelyingPartyInfo` to get a localized view for displaying the relying party to the user.
+   */
+  registrationCertificate?: RegistrationCertificate
+
+  /**
+   * The relying party described by the registration certificate, which is the relying party that receives the
+   * requested credentials
+   */
+  relyingParty?: RelyingPartyIdentity
+
+  /**
+   * The intermediary that signed the authorization request on behalf of the `relyingParty`, only present if the
+   * registration certificate is of an intermediated relying party. When the request also contains the registration
+   * certificate of the intermediary itself, its index is included as `verifierAttestationIndex`.
+   */
+  intermediary?: RelyingPartyIdentity & { verifierAttestationIndex?: number }
+
+  /**
+   * The certificate chain used to trust the registration certificate, starting with the trust anchor.
+   * Only present if the registration certificate is trusted.
+   */
+  registrationCertificateChain?: Array<X509Certificate>
+
+  /**
+   * The validated certificate chain of the relying party access certificate that signed the authorization request,
+   * starting with the trust anchor
+   */
+  accessCertificateChain?: Array<X509Certificate>
+
+  /**
+   * The status of the registration certificate, only present if the registration certificate contains a `status` claim
+   */
+  registrationCertificateStatus?: TokenStatusResult
+
+  /**
+   * The errors found while verifying the verifier attestation. Always empty when `throwOnError` is enabled.
+   */
+  errors: Array<VerifierAttestationError>
+}
+
+const defaultResolveVerifierAttestation = createVerifierAttestationResolver()
+
+type VerifierInfo = NonNullable<
+  OpenId4VpResolvedAuthorizationRequest['authorizationRequestPayload']['verifier_info']
+>[number]
+
+type VerifyVerifierAttestationOptions = Omit<VerifyAuthorizationRequestOptions, 'throwOnError'> & {
+  verifierAttestation: VerifierInfo
+  verifierAttestationIndex: number
+  reportError: (error: VerifierAttestationError) => void
+}
+
+/**
+ * An entry with `credential_ids` only applies to the referenced credential queries of the DCQL query. The options of
+ * the `credential_sets` are limited to the referenced credential queries, so the combinations that can be requested
+ * are still compared with the registration certificate.
+ */
+const getScopedDcqlQuery = (
+  { credentials, credential_sets }: Pick<DcqlQuery, 'credentials' | 'credential_sets'>,
+  credentialIds?: Array<string>
+): DcqlQuery => {
+  if (!credentialIds) return { credentials, credential_sets } as DcqlQuery
+
+  return {
+    credentials: credentials.filter((credentialQuery) => credentialIds.includes(credentialQuery.id)),
+    credential_sets: credential_sets
+      ?.map((credentialSet) => ({
+        ...credentialSet,
+        options: credentialSet.options
+          .map((option) => option.filter((credentialQueryId) => credentialIds.includes(credentialQueryId)))
+          .filter((option) => option.length > 0),
+      }))
+      .filter((credentialSet) => credentialSet.options.length > 0),
+  } as DcqlQuery
+}
+
+const verifyVerifierAttestation = async (
   agentContext: AgentContext,
   {
-    resolvedAuthorizationRequest: { authorizationRequestPayload, signedAuthorizationRequest, dcql },
+    resolvedAuthorizationRequest: { signedAuthorizationRequest, dcql, presentationExchange, verifier },
     trustedCertificates,
     allowUntrustedSigned,
-  }: VerifyAuthorizationRequestOptions
-) => {
-  const results = []
-  if (!authorizationRequestPayload.verifier_attestations) return
-  for (const va of authorizationRequestPayload.verifier_attestations) {
-    // Here we verify it as a registration certificate according to
-    // https://bmi.usercontent.opencode.de/eudi-wallet/eidas-2.0-architekturkonzept/flows/Wallet-Relying-Party-Authentication/#registration-certificate
-    if (va.format === 'jwt') {
-      if (typeof va.data !== 'string') {
-        throw new Error('Only inline JWTs are supported')
-      }
+    fetchCertificateChain,
+    timeContext,
+    resolveVerifierAttestation = defaultResolveVerifierAttestation,
+    trustedAccessCertificates,
+    registrationCertificateStatus: statusOptions,
+    verifierAttestation: va,
+    verifierAttestationIndex,
+    reportError,
+  }: VerifyVerifierAttestationOptions
+): Promise<Omit<VerifierAttestationVerificationResult, 'verifierAttestationIndex' | 'errors'>> => {
+  // Here we verify it as a registration certificate according to ETSI TS 119 475 or
+  // https://bmi.usercontent.opencode.de/eudi-wallet/eidas-2.0-architekturkonzept/flows/Wallet-Relying-Party-Authentication/#registration-certificate
+  if (va.format !== 'jwt') {
+    reportError(
+      new UnsupportedVerifierAttestationError('unsupported_format', `only format of 'jwt' is supported`, {
+        verifierAttestationIndex,
+        details: { format: va.format },
+      })
+    )
+    return { isValidButUntrusted: false, isValidAndTrusted: false }
+  }
+
+  let serializedJwt: string
+  if (typeof va.data === 'string') {
+    serializedJwt = va.data
+  } else if (typeof va.data === 'object' && va.data !== null && !Array.isArray(va.data)) {
+    try {
+      serializedJwt = await resolveVerifierAttestation(va.data)
+    } catch (error) {
+      reportError(
+        new UnresolvableVerifierAttestationError(
+          'unresolvable_reference',
+          'Verifier attestation passed by reference could not be resolved',
+          { verifierAttestationIndex, details: { data: va.data }, cause: error }
+        )
+      )
+      return { isValidButUntrusted: false, isValidAndTrusted: false }
+    }
+  } else {
+    reportError(
+      new UnsupportedVerifierAttestationError(
+        'unsupported_data',
+        'Only inline JWTs or JWTs passed by reference are supported',
+        { verifierAttestationIndex }
+      )
+    )
+    return { isValidButUntrusted: false, isValidAndTrusted: false }
+  }
+
+  const { registrationCertificate: parsedRegistrationCertificate, ...verifiedJwt } =
+    await verifyRegistrationCertificateJwt(agentContext, {
+      serializedJwt,
+      trustedCertificates,
+      allowUntrustedSigned,
+      fetchCertificateChain,
+      timeContext,
+      verifierAttestationIndex,
+      reportError,
+    })
+  const { isValidButUntrusted, isValidAndTrusted, registrationCertificateChain } = verifiedJwt
+  if (!parsedRegistrationCertificate) return verifiedJwt
+
+  const registrationCertificate: {
+    sub: string
+    name?: string
+    intermediary?: { sub: string; name?: string }
+  } = parsedRegistrationCertificate.payload
+
+  if (!signedAuthorizationRequest) {
+    reportError(
+      new UnsupportedAuthorizationRequestError(
+        'unsigned_request',
+        'Request must be signed for the registration certificate',
+        { verifierAttestationIndex }
+      )
+    )
+    return {
+      isValidButUntrusted,
+      isValidAndTrusted,
+      registrationCertificate: parsedRegistrationCertificate,
+      registrationCertificateChain,
+    }
+  }
+
+  if (signedAuthorizationRequest.signer.method !== 'x5c') {
+    reportError(
+      new UnsupportedAuthorizationRequestError(
+        'unsupported_request_signer',
+        'x5c is only supported for registration certificate',
+        { verifierAttestationIndex, details: { method: signedAuthorizationRequest.signer.method } }
+      )
+    )
+    return {
+      isValidButUntrusted,
+      isValidAndTrusted,
+      registrationCertificate: parsedRegistrationCertificate,
+      registrationCertificateChain,
+    }
+  }
 
-      const jwsService = agentContext.dependencyManager.resolve(JwsService)
-
-      let isValidButUntrusted = false
-      let isValidAndTrusted = false
-
-      const jwt = Jwt.fromSerializedJwt(va.data)
-
-      try {
-        const { isValid } = await jwsService.verifyJws(agentContext, {
-          jws: va.data,
-          trustedCertificates,
-        })
-        isValidAndTrusted = isValid
-      } catch {
-        if (allowUntrustedSigned) {
-          const { isValid } = await jwsService.verifyJws(agentContext, {
-            jws: va.data,
-            trustedCertificates: jwt.header.x5c ?? [],
-          })
-          isValidButUntrusted = isValid
+  const { x5c } = signedAuthorizationRequest.signer
+  const rpCert = X509Certificate.fromEncodedCertificate(x5c[0])
+
+  let accessCertificateChain: Array<X509Certificate> | undefined
+  try {
+    accessCertificateChain = await validateX509CertificateChain(agentContext, {
+      certificateChain: x5c,
+      trustedCertificates: trustedAccessCertificates ?? [x5c[x5c.length - 1]],
+      verificationDate: getNow(timeContext),
+    })
+  } catch (error) {
+    reportError(
+      new InvalidCertificateChainError(
+        'invalid_access_certificate_chain',
+        'Certificate chain of the relying party access certificate is invalid',
+        { verifierAttestationIndex, cause: error }
+      )
+    )
+  }
+
+  if (
+    !isCertificateBoundToClientId(rpCert, {
+      clientIdPrefix: verifier.clientIdPrefix,
+      clientId: verifier.effectiveClientId,
+    })
+  ) {
+    reportError(
+      new RelyingPartyMismatchError(
+        'client_id_mismatch',
+        `Certificate of the auth request does not match the client id '${verifier.effectiveClientId}'`,
+        {
+          verifierAttestationIndex,
+          details: { clientIdPrefix: verifier.clientIdPrefix, clientId: verifier.effectiveClientId },
         }
-      }
+      )
+    )
+  }
 
-      if (jwt.header.typ !== 'rc-rp+jwt') {
-        throw new Error(`only 'rc-rp+jwt' is supported as header typ. Request included: ${jwt.header.typ}`)
+  const relyingParty: RelyingPartyIdentity = {
+    subject: registrationCertificate.sub,
+    name: registrationCertificate.name,
+  }
+  let intermediary: RelyingPartyIdentity | undefined
+  if (!isRelyingPartySubjectMatch(rpCert, registrationCertificate.sub)) {
+    if (
+      registrationCertificate.intermediary &&
+      isRelyingPartySubjectMatch(rpCert, registrationCertificate.intermediary.sub)
+    ) {
+      // The authorization request is signed by an intermediary on behalf of the relying party of the registration certificate
+      intermediary = {
+        subject: registrationCertificate.intermediary.sub,
+        name: registrationCertificate.intermediary.name,
       }
+    } else {
+      reportError(
+        new RelyingPartyMismatchError(
+          'subject_mismatch',
+          `Subject in the certificate of the auth request: '${rpCert.subject}' is not equal to the subject of the registration certificate: '${registrationCertificate.sub}'`,
+          {
+            verifierAttestationIndex,
+            details: {
+              certificateSubject: rpCert.subject,
+              registrationCertificateSubject: registrationCertificate.sub,
+              intermediarySubject: registrationCertificate.intermediary?.sub,
+            },
+          }
+        )
+      )
+    }
+  }
 
-      if (!signedAuthorizationRequest) {
-        throw new Error('Request must be signed for the registration certificate')
-      }
+  const registrationCertificateStatus = await validateRegistrationCertificate(agentContext, {
+    registrationCertificate: parsedRegistrationCertificate,
+    trustedCertificates,
+    isValidButUntrusted,
+    timeContext,
+    statusOptions,
+    verifierAttestationIndex,
+    reportError,
+  })
 
-      if (signedAuthorizationRequest.signer.method !== 'x5c') {
-        throw new Error('x5c is only supported for registration certificate')
-      }
+  if (!dcql && !presentationExchange) {
+    reportError(
+      new UnsupportedAuthorizationRequestError(
+        'dcql_required',
+        'DCQL or Presentation Exchange must be used when working registration certificates',
+        { verifierAttestationIndex }
+      )
+    )
+  }
+
+  return {
+    isValidButUntrusted,
+    isValidAndTrusted,
+    x509RegistrationCertificate: rpCert,
+    registrationCertificate: parsedRegistrationCertificate,
+    relyingParty,
+    intermediary,
+    registrationCertificateChain,
+    accessCertificateChain,
+    registrationCertificateStatus,
+  }
+}
+
+type VerifyRegistrationScopeOptions = Pick<
+  VerifyAuthorizationRequestOptions,
+  'resolvedAuthorizationRequest' | 'entitlementPolicy' | 'vctTypeMetadata'
+> & {
+  verifierAttestation: VerifierInfo
+  verifierAttestationIndex: number
+  registrationCertificate: RegistrationCertificate
+  reportError: (error: VerifierAttestationError) => void
+}
+
+/**
+ * Verifies that the requested credentials are within the registration scope of the registration certificate, and
+ * comply with the entitlement policy
+ */
+const verifyRegistrationScope = ({
+  resolvedAuthorizationRequest: { dcql, presentationExchange },
+  entitlementPolicy,
+  vctTypeMetadata,
+  verifierAttestation: va,
+  verifierAttestationIndex,
+  registrationCertificate: parsedRegistrationCertificate,
+  reportError,
+}: VerifyRegistrationScopeOptions) => {
+  // A request without DCQL or Presentation Exchange is already rejected with `dcql_required`
+  if (!dcql && !presentationExchange) return
+
+  const registrationCertificate: { entitlements?: Array<unknown>; public_body?: boolean } =
+    parsedRegistrationCertificate.payload
 
-      const registrationCertificateHeaderSchema = z
-        .object({
-          typ: z.literal('rc-rp+jwt'),
-          alg: z.string(),
-          // sprin-d did not define this
-          x5u: z.url().optional(),
-          // sprin-d did not define this
-          'x5t#s256': z.string().optional(),
-        })
-        .loose()
-
-      // TODO: does not support intermediaries
-      const registrationCertificatePayloadSchema = z
-        .object({
-          credentials: z.array(
-            z.object({
-              format: z.string(),
-              multiple: z.boolean().default(false),
-              meta: z
-                .object({
-                  vct_values: z.array(z.string()).optional(),
-                  doctype_value: z.string().optional(),
-                })
-                .optional(),
-              trusted_authorities: z
-                .array(z.object({ type: z.string(), values: z.array(z.string()) }))
-                .nonempty()
-                .optional(),
-              require_cryptographic_holder_binding: z.boolean().default(true),
-              claims: z
-                .array(
-                  z.object({
-                    id: z.string().optional(),
-                    path: z.array(z.string()).nonempty().nonempty(),
-                    values: z.array(z.number().or(z.boolean())).optional(),
-                  })
-                )
-                .nonempty()
-                .optional(),
-              claim_sets: z.array(z.array(z.string())).nonempty().optional(),
-            })
-          ),
-          contact: z.object({
-            website: z.url(),
-            'e-mail': z.email(),
-            phone: z.string(),
-          }),
-          sub: z.string(),
-          // Should be service
-          services: z.array(z.object({ lang: z.string(), name: z.string() })),
-          public_body: z.boolean().default(false),
-          entitlements: z.array(z.any()),
-          provided_attestations: z
-            .array(
-              z.object({
-                format: z.string(),
-                meta: z.any(),
-              })
-            )
-            .optional(),
-          privacy_policy: z.url(),
-          iat: z.number().optional(),
-          exp: z.number().optional(),
-          purpose: z
-            .array(
-              z.object({
-                locale: z.string().optional(),
-                lang: z.string().optional(),
-                name: z.string(),
-              })
-            )
-            .optional(),
-          status: z.any(),
-        })
-        .loose()
-
-      registrationCertificateHeaderSchema.parse(jwt.header)
-      const parsedPayload = registrationCertificatePayloadSchema.parse(jwt.payload.toJson())
-
-      const [rpCertEncoded] = signedAuthorizationRequest.signer.x5c
-      const rpCert = X509Certificate.fromEncodedCertificate(rpCertEncoded)
-
-      if (rpCert.subject !== parsedPayload.sub) {
-        throw new Error(
-          `Subject in the certificate of the auth request: '${rpCert.subject}' is not equal to the subject of the registration certificate: '${parsedPayload.sub}'`
+  const dcqlQuery = dcql && getScopedDcqlQuery(dcql.queryResult, va.credential_ids)
+
+  const registrationCertificateQuery = getRegistrationCertificateDcqlQuery(parsedRegistrationCertificate)
+
+  const dcqlScopeViolations = dcqlQuery
+    ? getDcqlQueryScopeViolations(dcqlQuery, registrationCertificateQuery, { vctTypeMetadata })
+    : []
+  if (dcqlQuery && dcqlScopeViolations.length > 0) {
+    reportError(
+      new RegistrationScopeExceededError(
+        'dcql_not_subset',
+        'DCQL query in the authorization request is not equal or a valid subset of the DCQl query provided in the registration certificate',
+        {
+          verifierAttestationIndex,
+          details: { credentialQueryIds: dcqlQuery.credentials.map((c) => c.id), violations: dcqlScopeViolations },
+        }
+      )
+    )
+  }
+
+  // Presentation Exchange is checked against the registration certificate as its DCQL equivalent
+  let presentationExchangeQuery: DcqlQuery | undefined
+  if (presentationExchange) {
+    try {
+      presentationExchangeQuery = convertPresentationDefinitionToDcqlQuery(presentationExchange.definition)
+    } catch (error) {
+      reportError(
+        new UnsupportedAuthorizationRequestError(
+          'presentation_exchange_not_supported',
+          'Presentation Exchange definition can not be compared to the registration certificate',
+          {
+            verifierAttestationIndex,
+            details: { presentationDefinitionId: presentationExchange.definition.id },
+            cause: error,
+          }
         )
-      }
+      )
+    }
 
-      if (parsedPayload.iat && Date.now() / 1000 <= parsedPayload.iat) {
-        throw new Error('Issued at timestamp of the registration certificate is in the future')
-      }
+    const presentationExchangeScopeViolations = presentationExchangeQuery
+      ? getDcqlQueryScopeViolations(presentationExchangeQuery, registrationCertificateQuery, { vctTypeMetadata })
+      : []
+    if (presentationExchangeScopeViolations.length > 0) {
+      reportError(
+        new RegistrationScopeExceededError(
+          'presentation_definition_not_subset',
+          'Presentation definition in the authorization request is not equal or a valid subset of the DCQL query provided in the registration certificate',
+          {
+            verifierAttestationIndex,
+            details: {
+              presentationDefinitionId: presentationExchange.definition.id,
+              inputDescriptorIds: presentationExchange.definition.input_descriptors.map((d) => d.id),
+              violations: presentationExchangeScopeViolations,
+            },
+          }
+        )
+      )
+    }
+  }
 
-      // TODO: check the status of the registration certificate
+  if (entitlementPolicy) {
+    const violations = evaluateEntitlementPolicy(
+      {
+        entitlements: (registrationCertificate.entitlements ?? []).filter((e): e is string => typeof e === 'string'),
+        publicBody: registrationCertificate.public_body ?? false,
+        query: {
+          credentials: [...(dcqlQuery?.credentials ?? []), ...(presentationExchangeQuery?.credentials ?? [])],
+        } as DcqlQuery,
+      },
+      entitlementPolicy
+    )
 
-      if (!dcql) {
-        throw new Error('DCQL must be used when working registration certificates')
-      }
+    for (const { code, message, details } of violations) {
+      reportError(new EntitlementPolicyError(code, message, { verifierAttestationIndex, details }))
+    }
+  }
+}
 
-      if (
-        authorizationRequestPayload.presentation_definition ||
-        authorizationRequestPayload.presentation_definition_uri
-      ) {
-        throw new Error('Presentation Exchange is not supported for the registration certificate')
-      }
+/**
+ * Whether the verifier attestation applies to the credential query. An entry with `credential_ids` only applies
+ * to the referenced credential queries.
+ */
+export const isCredentialQueryReferenced = (
+  { credentialIds }: Pick<VerifierAttestationVerificationResult, 'credentialIds'>,
+  credentialQueryId: string
+) => credentialIds?.includes(credentialQueryId) ?? true
 
-      const isValidDcqlQuery = isDcqlQueryEqualOrSubset(dcql.queryResult, parsedPayload as unknown as DcqlQuery)
+const isValid = (result: VerifierAttestationVerificationResult) =>
+  (result.isValidAndTrusted || result.isValidButUntrusted) && result.errors.length === 0
 
-      if (!isValidDcqlQuery) {
-        throw new Error(
-          'DCQL query in the authorization request is not equal or a valid subset of the DCQl query provided in the registration certificate'
+const getVerdict = (
+  results: Array<VerifierAttestationVerificationResult>,
+  errors: Array<RegistrationCertificateRequiredError | EntitlementPolicyError>,
+  unreferencedCredentialQueryIds: Array<string>
+): AuthorizationRequestVerificationVerdict => {
+  if (errors.length > 0 || !results.every(isValid)) return 'invalid'
+  if (results.length === 0) return 'absent'
+
+  return unreferencedCredentialQueryIds.length === 0 && results.every((result) => result.isValidAndTrusted)
+    ? 'valid_and_trusted'
+    : 'valid_but_untrusted'
+}
+
+const getRequestedCredentialQueries = (
+  { dcql, presentationExchange }: OpenId4VpResolvedAuthorizationRequest,
+  reportError: (error: RegistrationCertificateRequiredError) => void
+) => {
+  const credentialQueries: Array<DcqlQuery['credentials'][number]> = [...(dcql?.queryResult.credentials ?? [])]
+  if (presentationExchange) {
+    try {
+      credentialQueries.push(...convertPresentationDefinitionToDcqlQuery(presentationExchange.definition).credentials)
+    } catch (error) {
+      // The requested credential types of a presentation definition that can not be expressed as DCQL are unknown,
+      // so it may request a credential type that requires a registration certificate
+      reportError(
+        new RegistrationCertificateRequiredError(
+          'registration_certificate_required',
+          `Presentation definition '${presentationExchange.definition.id}' can not be matched against the credentials that require a registration certificate`,
+          { details: { presentationDefinitionId: presentationExchange.definition.id }, cause: error }
         )
-      }
+      )
+    }
+  }
 
-      results.push({ isValidButUntrusted, isValidAndTrusted, x509RegistrationCertificate: rpCert })
-    } else {
-      throw new Error(`only format of 'jwt' is supported`)
+  return credentialQueries
+}
+
+const isRegistrationCertificateRequired = (
+  { meta }: DcqlQuery['credentials'][number],
+  { vcts = [], doctypes = [] }: RegistrationCertificateRequirement
+) => {
+  if (meta && 'vct_values' in meta && meta.vct_values?.some((vct) => vcts.includes(vct))) return true
+  if (meta && 'doctype_value' in meta && meta.doctype_value) return doctypes.includes(meta.doctype_value)
+
+  return false
+}
+
+/**
+ * Verifies the registration certificates in the `verifier_info` of an OpenID4VP authorization request, or in the
+ * `verifier_attestations` as used by drafts of OpenID4VP before 1.0, and determines the overall verdict.
+ */
+export const verifyOpenid4VpAuthorizationRequest = async (
+  agentContext: AgentContext,
+  { throwOnError = true, ...options }: VerifyAuthorizationRequestOptions
+): Promise<AuthorizationRequestVerificationResult> => {
+  const { authorizationRequestPayload } = options.resolvedAuthorizationRequest
+  const verifierAttestations =
+    authorizationRequestPayload.verifier_info ?? authorizationRequestPayload.verifier_attestations ?? []
+
+  const createReportError = (errors: Array<VerifierAttestationError>) => (error: VerifierAttestationError) => {
+    if (throwOnError) throw error
+    errors.push(error)
+  }
+
+  const results: Array<VerifierAttestationVerificationResult> = []
+  for (const [verifierAttestationIndex, verifierAttestation] of verifierAttestations.entries()) {
+    const errors: Array<VerifierAttestationError> = []
+    const result = await verifyVerifierAttestation(agentContext, {
+      ...options,
+      verifierAttestation,
+      verifierAttestationIndex,
+      reportError: createReportError(errors),
+    })
+
+    const { credential_ids: credentialIds } = verifierAttestation
+    results.push({ verifierAttestationIndex, ...(credentialIds && { credentialIds }), ...result, errors })
+  }
+
+  // A valid registration certificate that is not intermediated, of which the relying party is the intermediary of an
+  // intermediated registration certificate, is the registration certificate of the intermediary itself
+  for (const { intermediary } of results) {
+    if (!intermediary) continue
+
+    const intermediaryResult = results.find(
+      (result) =>
+        !result.intermediary &&
+        result.relyingParty &&
+        isValid(result) &&
+        isRelyingPartySubjectEqual(result.relyingParty.subject, intermediary.subject)
+    )
+    if (intermediaryResult) intermediary.verifierAttestationIndex = intermediaryResult.verifierAttestationIndex
+  }
+
+  // The registration certificate of the intermediary only identifies the signer of the request, the requested
+  // credentials are received by, and registered for, the intermediated relying party
+  const isIntermediary = ({ verifierAttestationIndex }: VerifierAttestationVerificationResult) =>
+    results.some(({ intermediary }) => intermediary?.verifierAttestationIndex === verifierAttestationIndex)
+
+  for (const result of results) {
+    if (!result.relyingParty || !result.registrationCertificate || isIntermediary(result)) continue
+
+    verifyRegistrationScope({
+      ...options,
+      verifierAttestation: verifierAttestations[result.verifierAttestationIndex],
+      verifierAttestationIndex: result.verifierAttestationIndex,
+      registrationCertificate: result.registrationCertificate,
+      reportError: createReportError(result.errors),
+    })
+  }
+
+  const errors: Array<RegistrationCertificateRequiredError | EntitlementPolicyError> = []
+  const reportRequestError = (error: RegistrationCertificateRequiredError | EntitlementPolicyError) => {
+    if (throwOnError) throw error
+    errors.push(error)
+  }
+
+  const isReferencedBy = (result: VerifierAttestationVerificationResult, { id }: DcqlQuery['credentials'][number]) =>
+    !isIntermediary(result) && isCredentialQueryReferenced(result, id)
+  const isCovered = (credentialQuery: DcqlQuery['credentials'][number]) =>
+    results.some((result) => isValid(result) && isReferencedBy(result, credentialQuery))
+
+  const { requireRegistrationCertificate, entitlementPolicy } = options
+  const credentialQueries = getRequestedCredentialQueries(options.resolvedAuthorizationRequest, (error) => {
+    if (requireRegistrationCertificate) reportRequestError(error)
+  })
+  for (const credentialQuery of credentialQueries) {
+    if (isCovered(credentialQuery)) continue
+
+    if (
+      requireRegistrationCertificate &&
+      isRegistrationCertificateRequired(credentialQuery, requireRegistrationCertificate)
+    ) {
+      reportRequestError(
+        new RegistrationCertificateRequiredError(
+          'registration_certificate_required',
+          `Credential query '${credentialQuery.id}' requires a registration certificate, but it is not covered by a valid registration certificate`,
+          { details: { credentialQueryId: credentialQuery.id } }
+        )
+      )
+    }
+
+    // Without a valid registration certificate the relying party has no entitlements and is not a public body
+    if (entitlementPolicy) {
+      const violations = evaluateEntitlementPolicy(
+        { entitlements: [], publicBody: false, query: { credentials: [credentialQuery] } as DcqlQuery },
+        entitlementPolicy
+      )
+      for (const { code, message, details } of violations) {
+        reportRequestError(new EntitlementPolicyError(code, message, { details }))
+      }
     }
   }
-  return results
+
+  const unreferencedCredentialQueryIds =
+    results.length > 0
+      ? credentialQueries
+          .filter((credentialQuery) => !results.some((result) => isReferencedBy(result, credentialQuery)))
+          .map((credentialQuery) => credentialQuery.id)
+      : []
+
+  return {
+    verdict: getVerdict(results, errors, unreferencedCredentialQueryIds),
+    verifierAttestations: results,
+    unreferencedCredentialQueryIds,
+    errors,
+  }
 }
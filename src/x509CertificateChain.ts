@@ -0,0 +1,145 @@
+import {
+  type AgentContext,
+  Hasher,
+  TypedArrayEncoder,
+  X509Certificate,
+  X509ModuleConfig,
+  X509Service,
+} from '@credo-ts/core'
+import {
+  BasicConstraintsExtension,
+  KeyUsageFlags,
+  KeyUsagesExtension,
+  X509Certificate as PeculiarX509Certificate,
+} from '@peculiar/x509'
+import { X509CertificateChainError } from './error'
+
+export interface ValidateX509CertificateChainOptions {
+  /**
+   * The certificate chain, e.g. from an `x5c` header, starting with the leaf certificate
+   */
+  certificateChain: Array<string>
+
+  /**
+   * The trust anchors, defaults to the trusted certificates configured in the `X509Module`
+   */
+  trustedCertificates?: Array<string>
+
+  /**
+   * @default new Date()
+   */
+  verificationDate?: Date
+}
+
+/**
+ * Fetches the PEM encoded certificate chain (`application/pem-certificate-chain`) referenced by an `x5u` header
+ */
+export type X509CertificateChainFetcher = (uri: string) => Promise<string>
+
+const defaultFetchCertificateChain: X509CertificateChainFetcher = async (uri) => {
+  const response = await fetch(uri, { headers: { Accept: 'application/pem-certificate-chain' } })
+  if (!response.ok) {
+    throw new X509CertificateChainError(`Failed to fetch certificate chain from ${uri}. Status ${response.status}`)
+  }
+
+  return response.text()
+}
+
+/**
+ * Fetches the certificate chain referenced by an `x5u` header.
+ *
+ * @returns the base64 encoded certificates, starting with the leaf certificate
+ */
+export async function fetchX509CertificateChain(
+  uri: string,
+  fetchCertificateChain: X509CertificateChainFetcher = defaultFetchCertificateChain
+): Promise<Array<string>> {
+  const pem = await fetchCertificateChain(uri)
+  const certificateChain = Array.from(
+    pem.matchAll(/-----BEGIN CERTIFICATE-----([\s\S]+?)-----END CERTIFICATE-----/g),
+    ([, base64]) => base64.replace(/\s/g, '')
+  )
+  if (certificateChain.length === 0) {
+    throw new X509CertificateChainError(`No certificates found in the certificate chain from ${uri}`)
+  }
+
+  return certificateChain
+}
+
+/**
+ * Calculates the `x5t#s256` thumbprint of a certificate, the base64url encoded SHA-256 hash of the DER encoding
+ */
+export function getX509CertificateThumbprint(certificate: string | X509Certificate) {
+  const { rawCertificate } =
+    typeof certificate === 'string' ? X509Certificate.fromEncodedCertificate(certificate) : certificate
+  return TypedArrayEncoder.toBase64URL(Hasher.hash(rawCertificate, 'sha-256'))
+}
+
+// A certificate without the keyUsage extension may be used for any purpose
+const hasKeyUsage = (certificate: PeculiarX509Certificate, usage: KeyUsageFlags) => {
+  const keyUsages = certificate.getExtension(KeyUsagesExtension)
+  return !keyUsages || (keyUsages.usages & usage) === usage
+}
+
+/**
+ * Builds the path from the leaf certificate, through the intermediate certificates, to one of the
+ * trusted certificates and validates it. Next to the validity period and signature of every certificate,
+ * the `basicConstraints`, `keyUsage` and path length constraints of the issuing certificates are checked.
+ *
+ * @returns the certificate chain that was used, starting with the trusted certificate and ending with the leaf certificate
+ */
+export async function validateX509CertificateChain(
+  agentContext: AgentContext,
+  { certificateChain, trustedCertificates, verificationDate = new Date() }: ValidateX509CertificateChainOptions
+): Promise<Array<X509Certificate>> {
+  const trustAnchors =
+    trustedCertificates ?? agentContext.dependencyManager.resolve(X509ModuleConfig).trustedCertificates ?? []
+
+  let chain: Array<X509Certificate>
+  try {
+    chain = await X509Service.validateCertificateChain(agentContext, {
+      certificateChain,
+      trustedCertificates: trustAnchors,
+      verificationDate,
+    })
+  } catch (error) {
+    throw new X509CertificateChainError('Certificate chain could not be validated against the trusted certificates', {
+      cause: error,
+    })
+  }
+
+  const leafCertificate = chain[chain.length - 1]
+  const issuingCertificates = chain.slice(0, -1)
+
+  for (const [index, certificate] of issuingCertificates.entries()) {
+    const parsedCertificate = new PeculiarX509Certificate(certificate.rawCertificate)
+    const basicConstraints = parsedCertificate.getExtension(BasicConstraintsExtension)
+    if (!basicConstraints?.ca) {
+      throw new X509CertificateChainError(
+        `Certificate '${certificate.subject}' issued a certificate in the chain, but is not a CA certificate`
+      )
+    }
+
+    if (!hasKeyUsage(parsedCertificate, KeyUsageFlags.keyCertSign)) {
+      throw new X509CertificateChainError(
+        `Certificate '${certificate.subject}' issued a certificate in the chain, but does not have the 'keyCertSign' key usage`
+      )
+    }
+
+    // The path length constraint limits the number of intermediate CA certificates that may follow this certificate
+    const followingIntermediateCertificates = issuingCertificates.length - index - 1
+    if (basicConstraints.pathLength !== undefined && followingIntermediateCertificates > basicConstraints.pathLength) {
+      throw new X509CertificateChainError(
+        `Certificate '${certificate.subject}' allows a path length of ${basicConstraints.pathLength}, but is followed by ${followingIntermediateCertificates} intermediate certificates`
+      )
+    }
+  }
+
+  if (!hasKeyUsage(new PeculiarX509Certificate(leafCertificate.rawCertificate), KeyUsageFlags.digitalSignature)) {
+    throw new X509CertificateChainError(
+      `Certificate '${leafCertificate.subject}' does not have the 'digitalSignature' key usage`
+    )
+  }
+
+  return chain
+}
@@ -0,0 +1,145 @@
+import { deepEqual, equal, throws } from 'node:assert'
+import { suite, test } from 'node:test'
+import {
+  createEtsiRegistrationCertificatePayload,
+  createRegistrationCertificatePayload,
+  RegistrationCertificateCreationError,
+} from '../src'
+
+const options = {
+  subject: 'C=DE,CN=Example Verifier',
+  contact: { website: 'https://rp.example.org', email: 'contact@rp.example.org', phone: '+49123456789' },
+  services: [{ lang: 'en', name: 'Example service' }],
+  privacyPolicy: 'https://rp.example.org/privacy',
+}
+
+suite('create registration certificate payload', () => {
+  test('Create the payload from a dcql query', () => {
+    const payload = createRegistrationCertificatePayload({
+      ...options,
+      dcqlQuery: {
+        credentials: [
+          {
+            id: 'pid',
+            format: 'dc+sd-jwt',
+            meta: { vct_values: ['urn:eudi:pid:de:1'] },
+            claims: [{ path: ['given_name'] }, { path: ['family_name'] }],
+          },
+        ],
+      },
+      purposes: [{ lang: 'en', name: 'Age verification' }],
+      entitlements: ['https://uri.etsi.org/19475/Entitlement/Service_Provider'],
+      issuedAt: new Date('2025-01-01T00:00:00Z'),
+      expiresAt: new Date('2026-01-01T00:00:00Z'),
+    })
+
+    // Compared as serialized in the JWT, which omits the claims that are not set
+    deepEqual(JSON.parse(JSON.stringify(payload)), {
+      sub: 'C=DE,CN=Example Verifier',
+      credentials: [
+        {
+          format: 'dc+sd-jwt',
+          multiple: false,
+          require_cryptographic_holder_binding: true,
+          meta: { vct_values: ['urn:eudi:pid:de:1'] },
+          claims: [{ path: ['given_name'] }, { path: ['family_name'] }],
+        },
+      ],
+      contact: { website: 'https://rp.example.org', 'e-mail': 'contact@rp.example.org', phone: '+49123456789' },
+      services: [{ lang: 'en', name: 'Example service' }],
+      purpose: [{ lang: 'en', name: 'Age verification' }],
+      entitlements: ['https://uri.etsi.org/19475/Entitlement/Service_Provider'],
+      public_body: false,
+      privacy_policy: 'https://rp.example.org/privacy',
+      iat: 1735689600,
+      exp: 1767225600,
+    })
+  })
+
+  test('Reject a payload that does not match the registration certificate schema', () => {
+    throws(
+      () => createRegistrationCertificatePayload({ ...options, privacyPolicy: 'not a url' }),
+      RegistrationCertificateCreationError
+    )
+
+    // Array indices can not be negative
+    throws(
+      () =>
+        createRegistrationCertificatePayload({
+          ...options,
+          dcqlQuery: {
+            credentials: [{ id: 'pid', format: 'dc+sd-jwt', claims: [{ path: ['nationalities', -1] }] }],
+          },
+        }),
+      (error) => error instanceof RegistrationCertificateCreationError && error.message.includes('claims')
+    )
+  })
+
+  test('Set the issued at time to the current time by default', () => {
+    const { iat } = createRegistrationCertificatePayload(options)
+    equal(typeof iat, 'number')
+  })
+
+  test('Create an ETSI payload from a dcql query with credential sets', () => {
+    const payload = createEtsiRegistrationCertificatePayload({
+      subject: 'VATDE-123456789',
+      name: 'Example Verifier',
+      country: 'DE',
+      dcqlQuery: {
+        credentials: [
+          { id: 'pid_sd_jwt', format: 'dc+sd-jwt', meta: { vct_values: ['urn:eudi:pid:de:1'] } },
+          { id: 'pid_mdoc', format: 'mso_mdoc', meta: { doctype_value: 'eu.europa.ec.eudi.pid.1' } },
+        ],
+        credential_sets: [{ options: [['pid_sd_jwt'], ['pid_mdoc']], required: true }],
+      },
+      serviceDescriptions: [{ lang: 'en', value: 'Example service' }],
+      entitlements: ['https://uri.etsi.org/19475/Entitlement/Service_Provider'],
+      privacyPolicy: 'https://rp.example.org/privacy',
+      intermediary: { subject: 'VATNL-987654321' },
+      issuedAt: new Date('2025-01-01T00:00:00Z'),
+    })
+
+    deepEqual(JSON.parse(JSON.stringify(payload)), {
+      sub: 'VATDE-123456789',
+      name: 'Example Verifier',
+      country: 'DE',
+      srv_description: [{ lang: 'en', value: 'Example service' }],
+      entitlements: ['https://uri.etsi.org/19475/Entitlement/Service_Provider'],
+      public_body: false,
+      privacy_policy: 'https://rp.example.org/privacy',
+      intermediary: { sub: 'VATNL-987654321' },
+      credentials: [
+        {
+          id: 'pid_sd_jwt',
+          format: 'dc+sd-jwt',
+          multiple: false,
+          require_cryptographic_holder_binding: true,
+          meta: { vct_values: ['urn:eudi:pid:de:1'] },
+        },
+        {
+          id: 'pid_mdoc',
+          format: 'mso_mdoc',
+          multiple: false,
+          require_cryptographic_holder_binding: true,
+          meta: { doctype_value: 'eu.europa.ec.eudi.pid.1' },
+        },
+      ],
+      credential_sets: [{ options: [['pid_sd_jwt'], ['pid_mdoc']], required: true }],
+      iat: 1735689600,
+    })
+  })
+
+  test('Reject an ETSI payload without entitlements', () => {
+    throws(
+      () =>
+        createEtsiRegistrationCertificatePayload({
+          subject: 'VATDE-123456789',
+          name: 'Example Verifier',
+          serviceDescriptions: [{ lang: 'en', value: 'Example service' }],
+          entitlements: [],
+          privacyPolicy: 'https://rp.example.org/privacy',
+        }),
+      (error) => error instanceof RegistrationCertificateCreationError && error.message.includes('entitlements')
+    )
+  })
+})
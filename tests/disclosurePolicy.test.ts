@@ -0,0 +1,172 @@
+import { deepEqual } from 'node:assert'
+import { webcrypto } from 'node:crypto'
+import { before, suite, test } from 'node:test'
+import { X509Certificate } from '@credo-ts/core'
+import * as x509 from '@peculiar/x509'
+import { EudiEntitlement, evaluateDisclosurePolicies, type VerifierAttestationVerificationResult } from '../src'
+
+const createCertificate = async (name: string) => {
+  const algorithm = { name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256' }
+  const keys = await webcrypto.subtle.generateKey(algorithm, true, ['sign', 'verify'])
+  const certificate = await x509.X509CertificateGenerator.createSelfSigned(
+    {
+      serialNumber: '01',
+      name,
+      notBefore: new Date(Date.now() - 60_000),
+      notAfter: new Date(Date.now() + 86_400_000),
+      keys,
+      signingAlgorithm: algorithm,
+    },
+    webcrypto as Crypto
+  )
+
+  return certificate.toString('base64')
+}
+
+const createResult = (
+  overrides: Partial<VerifierAttestationVerificationResult> = {}
+): VerifierAttestationVerificationResult => ({
+  verifierAttestationIndex: 0,
+  isValidAndTrusted: true,
+  isValidButUntrusted: false,
+  registrationCertificate: {
+    typ: 'rc-wrp+jwt',
+    payload: {
+      sub: 'VATDE-123456789',
+      name: 'Example Relying Party',
+      srv_description: [{ lang: 'en', value: 'Example service' }],
+      entitlements: [EudiEntitlement.ServiceProvider],
+      public_body: false,
+      privacy_policy: 'https://rp.example.org/privacy',
+      iat: 1750000000,
+    },
+  },
+  relyingParty: { subject: 'VATDE-123456789', name: 'Example Relying Party' },
+  errors: [],
+  ...overrides,
+})
+
+const credential = (disclosurePolicy?: unknown) => ({
+  id: 'pid',
+  typeMetadata: { vct: 'urn:eudi:pid:1', ...(disclosurePolicy ? { disclosure_policy: disclosurePolicy } : {}) },
+})
+
+const decisions = (results: Array<VerifierAttestationVerificationResult> | undefined, disclosurePolicy?: unknown) =>
+  evaluateDisclosurePolicies(results, [credential(disclosurePolicy)]).map(({ decision, reasons }) => ({
+    decision,
+    reasons: reasons.map((reason) => reason.code),
+  }))
+
+suite('disclosure policy', () => {
+  let rootCertificate: string
+  let otherRootCertificate: string
+
+  before(async () => {
+    rootCertificate = await createCertificate('CN=Root')
+    otherRootCertificate = await createCertificate('CN=Other Root')
+  })
+
+  test('Allow credentials without a disclosure policy', () => {
+    deepEqual(decisions(undefined), [{ decision: 'allow', reasons: [] }])
+    deepEqual(evaluateDisclosurePolicies([], [{ id: 'mdl' }]), [{ id: 'mdl', decision: 'allow', reasons: [] }])
+  })
+
+  test('Allow relying parties that meet the disclosure policy', () => {
+    deepEqual(
+      decisions([createResult()], {
+        authorized_relying_parties: ['VATDE-123456789'],
+        authorized_entitlements: [EudiEntitlement.ServiceProvider],
+      }),
+      [{ decision: 'allow', reasons: [] }]
+    )
+  })
+
+  test('Deny relying parties that do not meet the disclosure policy', () => {
+    deepEqual(
+      decisions([createResult()], {
+        authorized_relying_parties: ['VATNL-987654321'],
+        authorized_entitlements: [EudiEntitlement.PidProvider],
+        root_certificates: [otherRootCertificate],
+      }),
+      [
+        {
+          decision: 'deny',
+          reasons: ['relying_party_not_authorized', 'entitlement_missing', 'root_of_trust_mismatch'],
+        },
+      ]
+    )
+  })
+
+  test('Allow relying parties with an access certificate chain from a root certificate of the disclosure policy', () => {
+    const accessCertificateChain = [X509Certificate.fromEncodedCertificate(rootCertificate)]
+
+    deepEqual(
+      decisions([createResult({ accessCertificateChain })], {
+        root_certificates: [otherRootCertificate, rootCertificate],
+      }),
+      [{ decision: 'allow', reasons: [] }]
+    )
+    deepEqual(decisions([createResult({ accessCertificateChain })], { root_certificates: [otherRootCertificate] }), [
+      { decision: 'deny', reasons: ['root_of_trust_mismatch'] },
+    ])
+  })
+
+  test('Evaluate the disclosure policy against the intermediated relying party', () => {
+    deepEqual(
+      decisions(
+        [
+          createResult({ relyingParty: { subject: 'VATNL-987654321' } }),
+          createResult({
+            verifierAttestationIndex: 1,
+            intermediary: { subject: 'VATNL-987654321', verifierAttestationIndex: 0 },
+          }),
+        ],
+        { authorized_relying_parties: ['VATDE-123456789'] }
+      ),
+      [{ decision: 'allow', reasons: [] }]
+    )
+  })
+
+  test('Evaluate the disclosure policy against the verifier attestation of the credential query', () => {
+    const results = [
+      createResult({ credentialIds: ['pid'] }),
+      createResult({
+        verifierAttestationIndex: 1,
+        credentialIds: ['mdl'],
+        relyingParty: { subject: 'VATNL-987654321' },
+      }),
+    ]
+    const disclosurePolicy = { authorized_relying_parties: ['VATDE-123456789'] }
+
+    deepEqual(
+      evaluateDisclosurePolicies(results, [
+        { ...credential(disclosurePolicy), credentialQueryId: 'pid' },
+        { ...credential(disclosurePolicy), id: 'mdl', credentialQueryId: 'mdl' },
+        { ...credential(disclosurePolicy), id: 'photo_id', credentialQueryId: 'photo_id' },
+      ]).map(({ id, decision }) => ({ id, decision })),
+      [
+        { id: 'pid', decision: 'allow' },
+        { id: 'mdl', decision: 'deny' },
+        { id: 'photo_id', decision: 'warn' },
+      ]
+    )
+  })
+
+  test('Warn when the disclosure policy can not be evaluated', () => {
+    const policy = { authorized_relying_parties: ['VATDE-123456789'] }
+
+    deepEqual(decisions(undefined, policy), [{ decision: 'warn', reasons: ['relying_party_unverified'] }])
+    deepEqual(decisions([createResult({ isValidAndTrusted: false, isValidButUntrusted: true })], policy), [
+      { decision: 'warn', reasons: ['registration_certificate_untrusted'] },
+    ])
+    deepEqual(decisions([createResult()], { authorized_relying_parties: 'VATDE-123456789' }), [
+      { decision: 'warn', reasons: ['invalid_disclosure_policy'] },
+    ])
+    deepEqual(
+      decisions([createResult({ accessCertificateChain: [X509Certificate.fromEncodedCertificate(rootCertificate)] })], {
+        root_certificates: ['MIIBtest'],
+      }),
+      [{ decision: 'warn', reasons: ['invalid_disclosure_policy'] }]
+    )
+  })
+})
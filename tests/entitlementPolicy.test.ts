@@ -0,0 +1,65 @@
+import { deepEqual } from 'node:assert'
+import { suite, test } from 'node:test'
+import type { DcqlQuery } from '@credo-ts/core'
+import { type EntitlementPolicy, EudiEntitlement, evaluateEntitlementPolicy } from '../src'
+
+const query = {
+  credentials: [
+    { id: 'pid', format: 'dc+sd-jwt', meta: { vct_values: ['urn:eudi:pid:1'] } },
+    { id: 'mdl', format: 'mso_mdoc', meta: { doctype_value: 'org.iso.18013.5.1.mDL' } },
+  ],
+} as DcqlQuery
+
+const policy: EntitlementPolicy = {
+  restrictions: [
+    { entitlements: [EudiEntitlement.ServiceProvider] },
+    { doctypeValues: ['org.iso.18013.5.1.mDL'], publicBody: true },
+  ],
+}
+
+suite('entitlement policy', () => {
+  test('Allow relying parties that comply with the policy', () => {
+    deepEqual(
+      evaluateEntitlementPolicy({ entitlements: [EudiEntitlement.ServiceProvider], publicBody: true, query }, policy),
+      []
+    )
+  })
+
+  test('Reject unknown entitlements', () => {
+    const violations = evaluateEntitlementPolicy(
+      { entitlements: [EudiEntitlement.ServiceProvider, 'https://example.org/entitlement'], publicBody: true, query },
+      policy
+    )
+
+    deepEqual(
+      violations.map(({ code, details }) => ({ code, details })),
+      [{ code: 'unknown_entitlement', details: { entitlement: 'https://example.org/entitlement' } }]
+    )
+    deepEqual(
+      evaluateEntitlementPolicy(
+        { entitlements: ['https://example.org/entitlement'], publicBody: false, query },
+        { knownEntitlements: ['https://example.org/entitlement'] }
+      ),
+      []
+    )
+  })
+
+  test('Reject credentials reserved for other relying parties', () => {
+    const violations = evaluateEntitlementPolicy({ entitlements: [], publicBody: false, query }, policy)
+
+    deepEqual(
+      violations.map(({ code, details }) => ({ code, details })),
+      [
+        {
+          code: 'entitlement_required',
+          details: { credentialQueryId: 'pid', requiredEntitlements: [EudiEntitlement.ServiceProvider] },
+        },
+        {
+          code: 'entitlement_required',
+          details: { credentialQueryId: 'mdl', requiredEntitlements: [EudiEntitlement.ServiceProvider] },
+        },
+        { code: 'public_body_required', details: { credentialQueryId: 'mdl' } },
+      ]
+    )
+  })
+})
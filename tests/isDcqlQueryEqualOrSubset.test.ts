@@ -0,0 +1,527 @@
+import { deepEqual, equal } from 'node:assert'
+import { suite, test } from 'node:test'
+import type { DcqlQuery } from '@credo-ts/core'
+import { getDcqlQueryScopeViolations, isDcqlQueryEqualOrSubset, reduceDcqlQueryToRegistrationScope } from '../src'
+
+const pidSdJwt = {
+  id: 'pid_sd_jwt',
+  format: 'dc+sd-jwt',
+  meta: { vct_values: ['urn:eudi:pid:de:1'] },
+  claims: [{ path: ['given_name'] }, { path: ['family_name'] }],
+} satisfies DcqlQuery['credentials'][number]
+
+const pidMdoc = {
+  id: 'pid_mdoc',
+  format: 'mso_mdoc',
+  meta: { doctype_value: 'eu.europa.ec.eudi.pid.1' },
+  claims: [{ path: ['eu.europa.ec.eudi.pid.1', 'given_name'] }],
+} satisfies DcqlQuery['credentials'][number]
+
+const mdl = {
+  id: 'mdl',
+  format: 'mso_mdoc',
+  meta: { doctype_value: 'org.iso.18013.5.1.mDL' },
+} satisfies DcqlQuery['credentials'][number]
+
+const query = (credentials: DcqlQuery['credentials'], credentialSets?: DcqlQuery['credential_sets']) =>
+  ({ credentials, credential_sets: credentialSets }) as DcqlQuery
+
+suite('isDcqlQueryEqualOrSubset', () => {
+  test('Claims must be allowed by the registration certificate', () => {
+    equal(
+      isDcqlQueryEqualOrSubset(query([{ ...pidSdJwt, claims: [{ path: ['given_name'] }] }]), query([pidSdJwt])),
+      true
+    )
+    equal(
+      isDcqlQueryEqualOrSubset(
+        query([{ ...pidSdJwt, claims: [{ path: ['given_name'] }, { path: ['birthdate'] }] }]),
+        query([pidSdJwt])
+      ),
+      false
+    )
+  })
+
+  test('Credential sets of the registration certificate describe alternatives', () => {
+    const registered = query([pidSdJwt, pidMdoc], [{ options: [[pidSdJwt.id], [pidMdoc.id]], required: true }])
+
+    equal(isDcqlQueryEqualOrSubset(query([pidSdJwt]), registered), true)
+    equal(isDcqlQueryEqualOrSubset(query([pidMdoc]), registered), true)
+    equal(
+      isDcqlQueryEqualOrSubset(
+        query([pidSdJwt, pidMdoc], [{ options: [[pidSdJwt.id], [pidMdoc.id]], required: true }]),
+        registered
+      ),
+      true
+    )
+
+    // Both alternatives at once are not registered
+    equal(isDcqlQueryEqualOrSubset(query([pidSdJwt, pidMdoc]), registered), false)
+
+    // Credential queries that are not referenced by a credential set are not registered
+    equal(
+      isDcqlQueryEqualOrSubset(query([mdl]), query([pidSdJwt, mdl], [{ options: [[pidSdJwt.id]], required: true }])),
+      false
+    )
+  })
+
+  test('Optional credential sets of the registration certificate may be requested', () => {
+    const registered = query(
+      [pidSdJwt, mdl],
+      [
+        { options: [[pidSdJwt.id]], required: true },
+        { options: [[mdl.id]], required: false },
+      ]
+    )
+
+    equal(isDcqlQueryEqualOrSubset(query([pidSdJwt, mdl]), registered), true)
+    equal(isDcqlQueryEqualOrSubset(query([mdl]), registered), true)
+  })
+
+  test('Every combination that can be requested must be registered', () => {
+    // The optional mdl may be requested as well, which is not registered
+    equal(
+      isDcqlQueryEqualOrSubset(
+        query(
+          [pidSdJwt, mdl],
+          [
+            { options: [[pidSdJwt.id]], required: true },
+            { options: [[mdl.id]], required: false },
+          ]
+        ),
+        query([pidSdJwt])
+      ),
+      false
+    )
+
+    // Only the credential queries that are referenced by a credential set are requested
+    equal(
+      isDcqlQueryEqualOrSubset(
+        query([pidSdJwt, mdl], [{ options: [[pidSdJwt.id]], required: true }]),
+        query([pidSdJwt])
+      ),
+      true
+    )
+  })
+
+  test('Large credential sets are compared without enumerating every combination', () => {
+    // 20 credential sets with 3 options each can be combined in 3^20 ways
+    const credentials = Array.from({ length: 60 }, (_, index) => ({ ...pidSdJwt, id: `pid_${index}` }))
+    const credentialSets = Array.from({ length: 20 }, (_, index) => ({
+      options: [[`pid_${index * 3}`], [`pid_${index * 3 + 1}`], [`pid_${index * 3 + 2}`]],
+      required: true,
+    }))
+    const largeQuery = query(credentials, credentialSets)
+
+    equal(isDcqlQueryEqualOrSubset(largeQuery, query([pidSdJwt])), true)
+    deepEqual(reduceDcqlQueryToRegistrationScope(largeQuery, query([pidSdJwt])).removedCredentialQueryIds, [])
+
+    // With credential sets in the registration certificate only a limited number of combinations is compared
+    const registrationCertificateQuery = query([pidSdJwt, pidMdoc], [{ options: [[pidSdJwt.id], [pidMdoc.id]] }])
+    const violations = getDcqlQueryScopeViolations(largeQuery, registrationCertificateQuery)
+    equal(violations.length, 60)
+    equal(
+      violations.every(({ code }) => code === 'too_many_credential_combinations'),
+      true
+    )
+    equal(reduceDcqlQueryToRegistrationScope(largeQuery, registrationCertificateQuery).dcqlQuery, undefined)
+  })
+
+  test('Claims restricted to values may only be requested with a subset of the values', () => {
+    const registered = query([
+      {
+        ...pidSdJwt,
+        claims: [
+          { path: ['age_equal_or_over', '18'], values: [true] },
+          { path: ['nationalities'], values: ['DE', 'NL'] },
+        ],
+      },
+    ])
+
+    equal(
+      isDcqlQueryEqualOrSubset(
+        query([{ ...pidSdJwt, claims: [{ path: ['age_equal_or_over', '18'], values: [true] }] }]),
+        registered
+      ),
+      true
+    )
+    equal(
+      isDcqlQueryEqualOrSubset(
+        query([{ ...pidSdJwt, claims: [{ path: ['nationalities'], values: ['NL'] }] }]),
+        registered
+      ),
+      true
+    )
+
+    // Requesting the raw value is not registered
+    equal(
+      isDcqlQueryEqualOrSubset(query([{ ...pidSdJwt, claims: [{ path: ['age_equal_or_over', '18'] }] }]), registered),
+      false
+    )
+    equal(
+      isDcqlQueryEqualOrSubset(
+        query([{ ...pidSdJwt, claims: [{ path: ['nationalities'], values: ['DE', 'FR'] }] }]),
+        registered
+      ),
+      false
+    )
+  })
+
+  test('Every claim set that can be requested must be registered', () => {
+    const claims = [
+      { id: 'given_name', path: ['given_name'] },
+      { id: 'family_name', path: ['family_name'] },
+      { id: 'birthdate', path: ['birthdate'] },
+    ]
+    const registered = query([{ ...pidSdJwt, claims, claim_sets: [['given_name', 'family_name'], ['birthdate']] }])
+
+    equal(
+      isDcqlQueryEqualOrSubset(
+        query([{ ...pidSdJwt, claims, claim_sets: [['birthdate'], ['given_name']] }]),
+        registered
+      ),
+      true
+    )
+
+    // The claims of different claim sets of the registration certificate can not be combined
+    equal(isDcqlQueryEqualOrSubset(query([{ ...pidSdJwt, claims }]), registered), false)
+    equal(
+      isDcqlQueryEqualOrSubset(
+        query([{ ...pidSdJwt, claims, claim_sets: [['given_name', 'birthdate'], ['family_name']] }]),
+        registered
+      ),
+      false
+    )
+
+    // Only the claims of the claim sets of the request are requested
+    equal(
+      isDcqlQueryEqualOrSubset(
+        query([{ ...pidSdJwt, claims, claim_sets: [['given_name', 'family_name']] }]),
+        query([pidSdJwt])
+      ),
+      true
+    )
+  })
+
+  test('Requests must be restricted to the trusted authorities of the registration certificate', () => {
+    const registered = query([
+      { ...pidSdJwt, trusted_authorities: [{ type: 'aki', values: ['s9tIpPmhxdiuNkHMEWNpYim8S8Y', 'UVVZR'] }] },
+    ])
+
+    equal(
+      isDcqlQueryEqualOrSubset(
+        query([{ ...pidSdJwt, trusted_authorities: [{ type: 'aki', values: ['s9tIpPmhxdiuNkHMEWNpYim8S8Y'] }] }]),
+        registered
+      ),
+      true
+    )
+    equal(isDcqlQueryEqualOrSubset(query([pidSdJwt]), registered), false)
+    equal(
+      isDcqlQueryEqualOrSubset(
+        query([{ ...pidSdJwt, trusted_authorities: [{ type: 'aki', values: ['other'] }] }]),
+        registered
+      ),
+      false
+    )
+
+    // Without trusted authorities in the registration certificate, every issuer may be requested
+    equal(
+      isDcqlQueryEqualOrSubset(
+        query([{ ...pidSdJwt, trusted_authorities: [{ type: 'aki', values: ['other'] }] }]),
+        query([pidSdJwt])
+      ),
+      true
+    )
+  })
+
+  test('Requested vct_values must be a subset of the registered vct_values', () => {
+    const registered = query([{ ...pidSdJwt, meta: { vct_values: ['urn:eudi:pid:de:1', 'urn:eudi:pid:1'] } }])
+
+    equal(isDcqlQueryEqualOrSubset(query([pidSdJwt]), registered), true)
+    equal(
+      isDcqlQueryEqualOrSubset(query([{ ...pidSdJwt, meta: { vct_values: ['urn:eudi:pid:nl:1'] } }]), registered),
+      false
+    )
+  })
+
+  test('Requested vct_values may extend the registered vct_values', () => {
+    const vctTypeMetadata = [
+      { vct: 'urn:eudi:pid:de:2', extends: 'urn:eudi:pid:de:1' },
+      { vct: 'urn:eudi:pid:de:1', extends: 'urn:eudi:pid:1' },
+    ]
+    const registered = query([{ ...pidSdJwt, meta: { vct_values: ['urn:eudi:pid:1'] } }])
+    const request = query([{ ...pidSdJwt, meta: { vct_values: ['urn:eudi:pid:de:2'] } }])
+
+    equal(isDcqlQueryEqualOrSubset(request, registered), false)
+    equal(isDcqlQueryEqualOrSubset(request, registered, { vctTypeMetadata }), true)
+
+    // The registered type does not cover the types it extends
+    equal(isDcqlQueryEqualOrSubset(registered, request, { vctTypeMetadata }), false)
+  })
+
+  test('Registered claim paths cover their children, array wildcards and indices', () => {
+    const registered = query([
+      { ...pidSdJwt, claims: [{ path: ['address'] }, { path: ['nationalities', null] }, { path: ['degrees', 0] }] },
+    ])
+
+    const isAllowed = (path: Array<string | number | null>) =>
+      isDcqlQueryEqualOrSubset(query([{ ...pidSdJwt, claims: [{ path }] }]), registered)
+
+    equal(isAllowed(['address', 'street_address']), true)
+    equal(isAllowed(['nationalities', null]), true)
+    equal(isAllowed(['nationalities', 1]), true)
+    equal(isAllowed(['degrees', 0, 'title']), true)
+    equal(isAllowed(['nationalities']), false)
+    equal(isAllowed(['degrees', 1]), false)
+    equal(isAllowed(['degrees', null]), false)
+    equal(isAllowed(['given_name']), false)
+  })
+
+  test('W3C credentials are matched by their type_values', () => {
+    const diploma = {
+      id: 'diploma',
+      format: 'jwt_vc_json',
+      meta: { type_values: [['VerifiableCredential', 'UniversityDegreeCredential']] },
+      claims: [{ path: ['credentialSubject', 'degree'] }],
+    } satisfies DcqlQuery['credentials'][number]
+    const registered = query([diploma, { ...diploma, id: 'diploma_ldp', format: 'ldp_vc' }])
+
+    equal(isDcqlQueryEqualOrSubset(query([diploma]), registered), true)
+    equal(isDcqlQueryEqualOrSubset(query([{ ...diploma, format: 'ldp_vc' }]), registered), true)
+
+    // Requesting additional types is more specific, and an alternative without the registered types is not registered
+    equal(
+      isDcqlQueryEqualOrSubset(
+        query([
+          {
+            ...diploma,
+            meta: { type_values: [['VerifiableCredential', 'UniversityDegreeCredential', 'BachelorDegree']] },
+          },
+        ]),
+        registered
+      ),
+      true
+    )
+    equal(
+      isDcqlQueryEqualOrSubset(
+        query([
+          {
+            ...diploma,
+            meta: { type_values: [['VerifiableCredential', 'UniversityDegreeCredential'], ['VerifiableCredential']] },
+          },
+        ]),
+        registered
+      ),
+      false
+    )
+    deepEqual(
+      getDcqlQueryScopeViolations(query([{ ...diploma, format: 'ldp_vc', id: 'other' }]), query([diploma])).map(
+        ({ code }) => code
+      ),
+      ['format_not_registered']
+    )
+
+    // A W3C credential query without type_values is not compared as an SD-JWT VC
+    deepEqual(
+      getDcqlQueryScopeViolations(
+        query([{ ...diploma, meta: {} } as unknown as DcqlQuery['credentials'][number]]),
+        registered
+      ).map(({ code, message }) => ({ code, message })),
+      [
+        {
+          code: 'type_values_not_registered',
+          message: "The type_values [] of credential query 'diploma' are not registered",
+        },
+      ]
+    )
+  })
+
+  test('Legacy vc+sd-jwt credentials are matched by their vct_values', () => {
+    const legacyPid = { ...pidSdJwt, format: 'vc+sd-jwt' } satisfies DcqlQuery['credentials'][number]
+
+    equal(isDcqlQueryEqualOrSubset(query([legacyPid]), query([legacyPid])), true)
+    equal(isDcqlQueryEqualOrSubset(query([legacyPid]), query([pidSdJwt])), false)
+    deepEqual(
+      getDcqlQueryScopeViolations(
+        query([{ ...legacyPid, meta: { vct_values: ['urn:eudi:pid:1'] } }]),
+        query([legacyPid])
+      ).map(({ code }) => code),
+      ['vct_values_not_registered']
+    )
+  })
+})
+
+suite('getDcqlQueryScopeViolations', () => {
+  test('No violations for a query within the registration scope', () => {
+    deepEqual(getDcqlQueryScopeViolations(query([pidSdJwt, pidMdoc]), query([pidSdJwt, pidMdoc, mdl])), [])
+  })
+
+  test('Violations point at the credential query', () => {
+    const violations = getDcqlQueryScopeViolations(
+      query([
+        { ...pidSdJwt, claims: [{ path: ['given_name'] }, { path: ['birthdate'] }] },
+        { ...pidMdoc, meta: { doctype_value: 'org.example.other' } },
+        { id: 'pid_sd_jwt_other_vct', format: 'dc+sd-jwt', meta: { vct_values: ['urn:eudi:pid:1'] } },
+        { id: 'diploma_sd_jwt', format: 'dc+sd-jwt', meta: { vct_values: ['urn:example:diploma'] } },
+        { id: 'diploma_jwt_vc', format: 'jwt_vc_json', meta: { type_values: [['VerifiableCredential']] } },
+      ]),
+      query([
+        pidSdJwt,
+        pidMdoc,
+        {
+          id: 'diploma_sd_jwt',
+          format: 'dc+sd-jwt',
+          meta: { vct_values: ['urn:example:diploma'] },
+          trusted_authorities: [{ type: 'aki', values: ['s9tIpPmhxdiuNkHMEWNpYim8S8Y'] }],
+        },
+      ])
+    )
+
+    deepEqual(
+      violations.map(({ code, credentialQueryId, claimPath }) => ({ code, credentialQueryId, claimPath })),
+      [
+        { code: 'claim_not_registered', credentialQueryId: 'pid_sd_jwt', claimPath: ['birthdate'] },
+        { code: 'doctype_value_not_registered', credentialQueryId: 'pid_mdoc', claimPath: undefined },
+        { code: 'vct_values_not_registered', credentialQueryId: 'pid_sd_jwt_other_vct', claimPath: undefined },
+        { code: 'trusted_authorities_not_registered', credentialQueryId: 'diploma_sd_jwt', claimPath: undefined },
+        { code: 'format_not_registered', credentialQueryId: 'diploma_jwt_vc', claimPath: undefined },
+      ]
+    )
+  })
+
+  test('Violations for claim values and combinations of credentials', () => {
+    deepEqual(
+      getDcqlQueryScopeViolations(
+        query([{ ...pidSdJwt, claims: [{ path: ['nationalities'], values: ['FR'] }] }]),
+        query([{ ...pidSdJwt, claims: [{ path: ['nationalities'], values: ['DE'] }] }])
+      ).map(({ code, claimPath }) => ({ code, claimPath })),
+      [{ code: 'claim_values_not_registered', claimPath: ['nationalities'] }]
+    )
+
+    deepEqual(
+      getDcqlQueryScopeViolations(
+        query([pidSdJwt, pidMdoc]),
+        query([pidSdJwt, pidMdoc], [{ options: [[pidSdJwt.id], [pidMdoc.id]], required: true }])
+      ).map(({ code, credentialQueryId }) => ({ code, credentialQueryId })),
+      [{ code: 'credential_combination_not_registered', credentialQueryId: 'pid_mdoc' }]
+    )
+  })
+})
+
+suite('reduceDcqlQueryToRegistrationScope', () => {
+  test('Query within the registration scope is not changed', () => {
+    deepEqual(reduceDcqlQueryToRegistrationScope(query([pidSdJwt, pidMdoc]), query([pidSdJwt, pidMdoc])), {
+      dcqlQuery: query([pidSdJwt, pidMdoc]),
+      removedCredentialQueryIds: [],
+      removedClaims: [],
+      restrictedClaims: [],
+    })
+  })
+
+  test('Removes the claims and credential queries that are not registered', () => {
+    const reduction = reduceDcqlQueryToRegistrationScope(
+      query([
+        { ...pidSdJwt, claims: [{ path: ['given_name'] }, { path: ['birthdate'] }] },
+        { ...pidMdoc, claims: [{ path: ['eu.europa.ec.eudi.pid.1', 'birthdate'] }] },
+        mdl,
+      ]),
+      query([pidSdJwt, pidMdoc])
+    )
+
+    deepEqual(reduction.dcqlQuery, query([{ ...pidSdJwt, claims: [{ path: ['given_name'] }] }]))
+    deepEqual(reduction.removedCredentialQueryIds, ['pid_mdoc', 'mdl'])
+    deepEqual(reduction.removedClaims, [{ credentialQueryId: 'pid_sd_jwt', claimPath: ['birthdate'] }])
+    equal(isDcqlQueryEqualOrSubset(reduction.dcqlQuery as DcqlQuery, query([pidSdJwt, pidMdoc])), true)
+  })
+
+  test('Restricts claims and trusted authorities to the registered values', () => {
+    const trustedAuthorities = [{ type: 'aki' as const, values: ['s9tIpPmhxdiuNkHMEWNpYim8S8Y'] }]
+    const reduction = reduceDcqlQueryToRegistrationScope(
+      query([
+        {
+          ...pidSdJwt,
+          claims: [{ path: ['age_equal_or_over', '18'] }, { path: ['nationalities'], values: ['DE', 'FR'] }],
+        },
+      ]),
+      query([
+        {
+          ...pidSdJwt,
+          trusted_authorities: trustedAuthorities,
+          claims: [
+            { path: ['age_equal_or_over', '18'], values: [true] },
+            { path: ['nationalities'], values: ['DE', 'NL'] },
+          ],
+        },
+      ])
+    )
+
+    deepEqual(
+      reduction.dcqlQuery,
+      query([
+        {
+          ...pidSdJwt,
+          trusted_authorities: trustedAuthorities,
+          claims: [
+            { path: ['age_equal_or_over', '18'], values: [true] },
+            { path: ['nationalities'], values: ['DE'] },
+          ],
+        },
+      ])
+    )
+    deepEqual(reduction.removedClaims, [])
+    deepEqual(reduction.restrictedClaims, [
+      { credentialQueryId: 'pid_sd_jwt', claimPath: ['age_equal_or_over', '18'], values: [true] },
+      { credentialQueryId: 'pid_sd_jwt', claimPath: ['nationalities'], values: ['DE'], removedValues: ['FR'] },
+    ])
+  })
+
+  test('Narrows claim sets and credential sets', () => {
+    const claims = [
+      { id: 'given_name', path: ['given_name'] },
+      { id: 'birthdate', path: ['birthdate'] },
+    ]
+    const reduction = reduceDcqlQueryToRegistrationScope(
+      query(
+        [{ ...pidSdJwt, claims, claim_sets: [['given_name', 'birthdate'], ['birthdate']] }, mdl],
+        [{ options: [[pidSdJwt.id], [mdl.id]], required: true }]
+      ),
+      query([pidSdJwt])
+    )
+
+    deepEqual(
+      reduction.dcqlQuery,
+      query(
+        [{ ...pidSdJwt, claims: [claims[0]], claim_sets: [['given_name']] }],
+        [{ options: [[pidSdJwt.id]], required: true }]
+      )
+    )
+    deepEqual(reduction.removedCredentialQueryIds, ['mdl'])
+    deepEqual(reduction.removedClaims, [{ credentialQueryId: 'pid_sd_jwt', claimPath: ['birthdate'] }])
+  })
+
+  test('Removes credential queries that are only registered as alternatives', () => {
+    const reduction = reduceDcqlQueryToRegistrationScope(
+      query([pidSdJwt, pidMdoc]),
+      query([pidSdJwt, pidMdoc], [{ options: [[pidSdJwt.id], [pidMdoc.id]], required: true }])
+    )
+
+    deepEqual(reduction.dcqlQuery, query([pidSdJwt]))
+    deepEqual(reduction.removedCredentialQueryIds, ['pid_mdoc'])
+  })
+
+  test('Nothing remains when no credential query is registered', () => {
+    deepEqual(reduceDcqlQueryToRegistrationScope(query([mdl]), query([pidSdJwt])), {
+      dcqlQuery: undefined,
+      removedCredentialQueryIds: ['mdl'],
+      removedClaims: [],
+      restrictedClaims: [],
+    })
+  })
+  test('Narrows the vct_values to the registered vct_values', () => {
+    const reduction = reduceDcqlQueryToRegistrationScope(
+      query([{ ...pidSdJwt, meta: { vct_values: ['urn:eudi:pid:de:1', 'urn:eudi:pid:nl:1'] } }]),
+      query([pidSdJwt])
+    )
+
+    deepEqual(reduction.dcqlQuery, query([pidSdJwt]))
+  })
+})
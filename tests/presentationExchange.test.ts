@@ -0,0 +1,176 @@
+import { deepEqual, throws } from 'node:assert'
+import { suite, test } from 'node:test'
+import type { DifPresentationExchangeDefinition, DifPresentationExchangeDefinitionV2 } from '@credo-ts/core'
+import { convertPresentationDefinitionToDcqlQuery, PresentationExchangeConversionError } from '../src'
+
+suite('presentation exchange', () => {
+  test('Convert an SD-JWT VC input descriptor', () => {
+    const definition: DifPresentationExchangeDefinition = {
+      id: 'pid',
+      input_descriptors: [
+        {
+          id: 'pid-sd-jwt',
+          format: { 'vc+sd-jwt': {} },
+          constraints: {
+            limit_disclosure: 'required',
+            fields: [
+              { path: ['$.vct'], filter: { type: 'string', enum: ['urn:eudi:pid:de:1', 'urn:eudi:pid:1'] } },
+              { path: ['$.given_name'] },
+              { path: ["$['address']['street_address']", '$.address.locality'] },
+              { path: ['$.nationalities[*]'] },
+              { path: ['$.nationalities[0]'] },
+              { path: ['$.address.country'], filter: { type: 'string', enum: ['DE', 'NL'] } },
+              { path: ['$.age_over_18'], filter: { type: 'boolean', const: true } },
+            ],
+          },
+        },
+      ],
+    }
+
+    deepEqual(convertPresentationDefinitionToDcqlQuery(definition), {
+      credentials: [
+        {
+          id: 'pid-sd-jwt',
+          format: 'dc+sd-jwt',
+          meta: { vct_values: ['urn:eudi:pid:de:1', 'urn:eudi:pid:1'] },
+          claims: [
+            { path: ['given_name'] },
+            { path: ['address', 'street_address'] },
+            { path: ['address', 'locality'] },
+            { path: ['nationalities', null] },
+            { path: ['nationalities', 0] },
+            { path: ['address', 'country'], values: ['DE', 'NL'] },
+            { path: ['age_over_18'], values: [true] },
+          ],
+        },
+      ],
+    })
+  })
+
+  test('Convert an mdoc input descriptor', () => {
+    const definition: DifPresentationExchangeDefinition = {
+      id: 'mdl',
+      input_descriptors: [
+        {
+          id: 'org.iso.18013.5.1.mDL',
+          format: { mso_mdoc: { alg: ['ES256'] } },
+          constraints: {
+            limit_disclosure: 'required',
+            fields: [
+              { path: ["$['org.iso.18013.5.1']['family_name']"], intent_to_retain: false },
+              { path: ["$['org.iso.18013.5.1']['portrait']"], intent_to_retain: true },
+              { path: ["$['org.iso.18013.5.1']['issuing_country']"], filter: { type: 'string', const: 'DE' } },
+            ],
+          },
+        },
+      ],
+    }
+
+    deepEqual(convertPresentationDefinitionToDcqlQuery(definition), {
+      credentials: [
+        {
+          id: 'org_iso_18013_5_1_mDL',
+          format: 'mso_mdoc',
+          meta: { doctype_value: 'org.iso.18013.5.1.mDL' },
+          claims: [
+            { path: ['org.iso.18013.5.1', 'family_name'], intent_to_retain: false },
+            { path: ['org.iso.18013.5.1', 'portrait'], intent_to_retain: true },
+            { path: ['org.iso.18013.5.1', 'issuing_country'], values: ['DE'] },
+          ],
+        },
+      ],
+    })
+  })
+
+  test('Use the format of the presentation definition', () => {
+    const definition: DifPresentationExchangeDefinition = {
+      id: 'pid',
+      // dc+sd-jwt is not part of the Presentation Exchange format registry, but is used as alias by some verifiers
+      format: { 'vc+sd-jwt': {}, 'dc+sd-jwt': {} } as DifPresentationExchangeDefinition['format'],
+      input_descriptors: [
+        {
+          id: 'pid',
+          constraints: { fields: [{ path: ['$.vct'], filter: { type: 'string', const: 'urn:eudi:pid:1' } }] },
+        },
+      ],
+    }
+
+    deepEqual(convertPresentationDefinitionToDcqlQuery(definition), {
+      credentials: [{ id: 'pid', format: 'dc+sd-jwt', meta: { vct_values: ['urn:eudi:pid:1'] }, claims: undefined }],
+    })
+  })
+
+  test('Reject input descriptors that can not be expressed in DCQL', () => {
+    const convert = (inputDescriptor: DifPresentationExchangeDefinitionV2['input_descriptors'][number]) => () =>
+      convertPresentationDefinitionToDcqlQuery({ id: 'test', input_descriptors: [inputDescriptor] })
+
+    // Unsupported, missing or multiple formats
+    throws(
+      convert({ id: 'vc', format: { jwt_vc_json: { alg: ['ES256'] } }, constraints: {} }),
+      PresentationExchangeConversionError
+    )
+    throws(convert({ id: 'vc', constraints: {} }), PresentationExchangeConversionError)
+    throws(
+      convert({ id: 'vc', format: { 'vc+sd-jwt': {}, mso_mdoc: { alg: ['ES256'] } }, constraints: {} }),
+      PresentationExchangeConversionError
+    )
+
+    // SD-JWT VC without a vct filter
+    throws(
+      convert({ id: 'pid', format: { 'vc+sd-jwt': {} }, constraints: { fields: [{ path: ['$.given_name'] }] } }),
+      PresentationExchangeConversionError
+    )
+
+    // Unsupported JSONPath
+    throws(
+      convert({
+        id: 'pid',
+        format: { 'vc+sd-jwt': {} },
+        constraints: {
+          fields: [
+            { path: ['$.vct'], filter: { type: 'string', const: 'urn:eudi:pid:1' } },
+            { path: ['$..given_name'] },
+          ],
+        },
+      }),
+      PresentationExchangeConversionError
+    )
+
+    // Field filters that can not be expressed as claim values
+    for (const filter of [
+      { type: 'string', pattern: '^DE' },
+      { type: 'number', minimum: 18 },
+      { type: 'string', format: 'date' },
+    ]) {
+      throws(
+        convert({
+          id: 'pid',
+          format: { 'vc+sd-jwt': {} },
+          constraints: {
+            fields: [
+              { path: ['$.vct'], filter: { type: 'string', const: 'urn:eudi:pid:1' } },
+              { path: ['$.address.country'], filter },
+            ],
+          },
+        }),
+        PresentationExchangeConversionError
+      )
+    }
+
+    // mdoc path without namespace
+    throws(
+      convert({
+        id: 'org.iso.18013.5.1.mDL',
+        format: { mso_mdoc: { alg: ['ES256'] } },
+        constraints: { fields: [{ path: ['$.family_name'] }] },
+      }),
+      PresentationExchangeConversionError
+    )
+
+    // No input descriptors
+    throws(
+      () => convertPresentationDefinitionToDcqlQuery({ id: 'test', input_descriptors: [] }),
+      PresentationExchangeConversionError
+    )
+  })
+})
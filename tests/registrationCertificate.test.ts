@@ -0,0 +1,105 @@
+import { deepEqual, equal, throws } from 'node:assert'
+import { suite, test } from 'node:test'
+import {
+  getRegistrationCertificateDcqlQuery,
+  InvalidRegistrationCertificateError,
+  parseRegistrationCertificate,
+  UnsupportedVerifierAttestationError,
+  zRegistrationCertificateHeader,
+} from '../src'
+
+// The signature is not verified when parsing, so the JWT is not signed
+const encodeJwt = (header: Record<string, unknown>, payload: Record<string, unknown>) =>
+  [header, payload]
+    .map((part) => Buffer.from(JSON.stringify(part)).toString('base64url'))
+    .join('.')
+    .concat('.c2ln')
+
+const etsiPayload = {
+  sub: 'C=DE,CN=Example Relying Party',
+  name: 'Example Relying Party',
+  srv_description: [{ lang: 'en', value: 'Example service' }],
+  entitlements: ['https://uri.etsi.org/19475/Entitlement/Service_Provider'],
+  privacy_policy: 'https://rp.example.org/privacy',
+  iat: 1735689600,
+}
+
+suite('parse registration certificate', () => {
+  test('Parse an ETSI TS 119 475 registration certificate', () => {
+    const registrationCertificate = parseRegistrationCertificate(
+      encodeJwt({ typ: 'rc-wrp+jwt', alg: 'ES256', x5c: ['MIIB'] }, etsiPayload)
+    )
+
+    equal(registrationCertificate.typ, 'rc-wrp+jwt')
+    deepEqual(registrationCertificate.header, { typ: 'rc-wrp+jwt', alg: 'ES256', x5c: ['MIIB'] })
+    equal(registrationCertificate.payload.sub, etsiPayload.sub)
+    deepEqual(registrationCertificate.payload.entitlements, etsiPayload.entitlements)
+    equal(registrationCertificate.payload.public_body, false)
+  })
+
+  test('Parse a SPRIN-D registration certificate', () => {
+    const registrationCertificate = parseRegistrationCertificate(
+      encodeJwt(
+        { typ: 'rc-rp+jwt', alg: 'ES256' },
+        {
+          sub: 'C=DE,CN=Example Relying Party',
+          contact: { website: 'https://rp.example.org', 'e-mail': 'contact@rp.example.org', phone: '+49123456789' },
+          services: [{ lang: 'en', name: 'Example service' }],
+          entitlements: [],
+          privacy_policy: 'https://rp.example.org/privacy',
+          credentials: [{ format: 'mso_mdoc', meta: { doctype_value: 'eu.europa.ec.eudi.pid.1' } }],
+        }
+      )
+    )
+
+    equal(registrationCertificate.typ, 'rc-rp+jwt')
+    equal(registrationCertificate.payload.credentials?.[0].require_cryptographic_holder_binding, true)
+  })
+
+  test('Read the credential_sets of a SPRIN-D registration certificate', () => {
+    const registrationCertificate = parseRegistrationCertificate(
+      encodeJwt(
+        { typ: 'rc-rp+jwt', alg: 'ES256' },
+        {
+          sub: 'C=DE,CN=Example Relying Party',
+          contact: { website: 'https://rp.example.org', 'e-mail': 'contact@rp.example.org', phone: '+49123456789' },
+          services: [{ lang: 'en', name: 'Example service' }],
+          entitlements: [],
+          privacy_policy: 'https://rp.example.org/privacy',
+          credentials: [
+            { id: 'pid_sd_jwt', format: 'dc+sd-jwt', meta: { vct_values: ['urn:eudi:pid:de:1'] } },
+            { id: 'pid_mdoc', format: 'mso_mdoc', meta: { doctype_value: 'eu.europa.ec.eudi.pid.1' } },
+          ],
+          credential_sets: [{ options: [['pid_sd_jwt'], ['pid_mdoc']] }],
+        }
+      )
+    )
+
+    deepEqual(getRegistrationCertificateDcqlQuery(registrationCertificate).credential_sets, [
+      { options: [['pid_sd_jwt'], ['pid_mdoc']], required: true },
+    ])
+  })
+
+  test('Reject invalid registration certificates', () => {
+    throws(
+      () => parseRegistrationCertificate('not-a-jwt'),
+      (error) => error instanceof InvalidRegistrationCertificateError && error.code === 'invalid_jwt'
+    )
+    throws(
+      () => parseRegistrationCertificate(encodeJwt({ typ: 'JWT', alg: 'ES256' }, etsiPayload)),
+      (error) => error instanceof UnsupportedVerifierAttestationError && error.code === 'unsupported_typ'
+    )
+    throws(
+      () =>
+        parseRegistrationCertificate(
+          encodeJwt({ typ: 'rc-wrp+jwt', alg: 'ES256' }, { ...etsiPayload, privacy_policy: undefined })
+        ),
+      (error) => error instanceof InvalidRegistrationCertificateError && error.code === 'invalid_payload'
+    )
+  })
+
+  test('Discriminate the header by typ', () => {
+    equal(zRegistrationCertificateHeader.safeParse({ typ: 'rc-rp+jwt', alg: 'ES256' }).success, true)
+    equal(zRegistrationCertificateHeader.safeParse({ typ: 'JWT', alg: 'ES256' }).success, false)
+  })
+})
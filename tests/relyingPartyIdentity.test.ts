@@ -0,0 +1,33 @@
+import { equal } from 'node:assert'
+import { suite, test } from 'node:test'
+import { isDistinguishedNameEqual, isRelyingPartySubjectEqual } from '../src'
+
+suite('relying party identity', () => {
+  test('Compare Distinguished Names regardless of attribute order, whitespace and case', () => {
+    equal(isDistinguishedNameEqual('CN=Example Relying Party, C=DE', 'C=DE,CN=Example Relying Party'), true)
+    equal(isDistinguishedNameEqual('CN=Example  Relying Party, C=DE', 'cn=example relying party, c=de'), true)
+  })
+
+  test('Compare Distinguished Names with attribute types by name or object identifier', () => {
+    equal(
+      isDistinguishedNameEqual(
+        'organizationIdentifier=VATDE-123456789, O=Example',
+        'O=Example, 2.5.4.97=VATDE-123456789'
+      ),
+      true
+    )
+  })
+
+  test('Distinguished Names with different attributes are not equal', () => {
+    equal(isDistinguishedNameEqual('CN=Example Relying Party, C=DE', 'CN=Example Relying Party, C=NL'), false)
+    equal(isDistinguishedNameEqual('CN=Example Relying Party, C=DE', 'CN=Example Relying Party'), false)
+    equal(isDistinguishedNameEqual('CN=Example Relying Party', 'not a distinguished name'), false)
+  })
+
+  test('Compare subjects as Distinguished Names or semantic identifiers', () => {
+    equal(isRelyingPartySubjectEqual('CN=Example Relying Party, C=DE', 'C=DE,CN=example relying party'), true)
+    equal(isRelyingPartySubjectEqual('VATDE-123456789', ' VATDE-123456789'), true)
+    equal(isRelyingPartySubjectEqual('VATDE-123456789', 'VATNL-987654321'), false)
+    equal(isRelyingPartySubjectEqual('CN=VATDE-123456789', 'VATDE-123456789'), false)
+  })
+})
@@ -0,0 +1,147 @@
+import { deepEqual, equal } from 'node:assert'
+import { suite, test } from 'node:test'
+import {
+  getRelyingPartyInfo,
+  type RegistrationCertificate,
+  RelyingPartyMismatchError,
+  type VerifierAttestationVerificationResult,
+} from '../src'
+
+const etsiRegistrationCertificate = {
+  typ: 'rc-wrp+jwt',
+  payload: {
+    sub: 'VATDE-123456789',
+    name: 'Example Relying Party',
+    country: 'DE',
+    srv_description: [
+      { lang: 'en', value: 'Example service' },
+      { lang: 'de-DE', value: 'Beispieldienst' },
+    ],
+    purpose: [
+      { lang: 'en', value: 'Identification' },
+      { lang: 'de', value: 'Identifizierung' },
+    ],
+    entitlements: ['https://uri.etsi.org/19475/Entitlement/Service_Provider'],
+    public_body: false,
+    privacy_policy: 'https://rp.example.org/privacy',
+    support_uri: 'https://rp.example.org/support',
+    iat: 1750000000,
+  },
+} satisfies RegistrationCertificate
+
+const funkeRegistrationCertificate = {
+  typ: 'rc-rp+jwt',
+  payload: {
+    sub: 'VATDE-123456789',
+    services: [{ lang: 'en', name: 'Funke service' }],
+    purpose: [{ locale: 'nl', name: 'Identificatie' }],
+    contact: { website: 'https://rp.example.org', 'e-mail': 'rp@example.org', phone: '+49 123456789' },
+    public_body: true,
+    entitlements: [],
+    credentials: [],
+    privacy_policy: 'https://rp.example.org/funke-privacy',
+  },
+} satisfies RegistrationCertificate
+
+const createResult = (
+  verifierAttestationIndex: number,
+  registrationCertificate: RegistrationCertificate,
+  overrides: Partial<VerifierAttestationVerificationResult> = {}
+): VerifierAttestationVerificationResult => ({
+  verifierAttestationIndex,
+  isValidAndTrusted: true,
+  isValidButUntrusted: false,
+  registrationCertificate,
+  relyingParty: { subject: registrationCertificate.payload.sub },
+  errors: [],
+  ...overrides,
+})
+
+suite('relying party info', () => {
+  test('Create the relying party info in the preferred language', () => {
+    const info = getRelyingPartyInfo([createResult(0, etsiRegistrationCertificate)], {
+      preferredLanguages: ['de-AT', 'en'],
+    })
+
+    equal(info?.trusted, true)
+    deepEqual(info?.name, { value: 'Example Relying Party', trusted: true, verifierAttestationIndex: 0 })
+    deepEqual(info?.service?.value, { lang: 'de-DE', value: 'Beispieldienst' })
+    deepEqual(info?.purpose?.value, { lang: 'de', value: 'Identifizierung' })
+    deepEqual(info?.contact?.value, { website: undefined, supportUri: 'https://rp.example.org/support' })
+    deepEqual(info?.entitlements.value, ['https://uri.etsi.org/19475/Entitlement/Service_Provider'])
+  })
+
+  test('Fall back to English and then to the first value', () => {
+    const info = getRelyingPartyInfo([createResult(0, funkeRegistrationCertificate)], {
+      preferredLanguages: ['fr'],
+    })
+
+    deepEqual(info?.service?.value, { lang: 'en', value: 'Funke service' })
+    deepEqual(info?.purpose?.value, { lang: 'nl', value: 'Identificatie' })
+    deepEqual(info?.contact?.value, {
+      website: 'https://rp.example.org',
+      email: 'rp@example.org',
+      phone: '+49 123456789',
+    })
+    equal(info?.publicBody.value, true)
+  })
+
+  test('Prefer values from trusted registration certificates', () => {
+    const info = getRelyingPartyInfo([
+      createResult(0, funkeRegistrationCertificate, { isValidAndTrusted: false, isValidButUntrusted: true }),
+      createResult(1, etsiRegistrationCertificate),
+    ])
+
+    equal(info?.trusted, true)
+    deepEqual(info?.privacyPolicy, {
+      value: 'https://rp.example.org/privacy',
+      trusted: true,
+      verifierAttestationIndex: 1,
+    })
+
+    const untrustedInfo = getRelyingPartyInfo([
+      createResult(0, etsiRegistrationCertificate, { isValidAndTrusted: false, isValidButUntrusted: true }),
+    ])
+    equal(untrustedInfo?.trusted, false)
+    equal(untrustedInfo?.subject.trusted, false)
+  })
+
+  test('Describe the intermediated relying party', () => {
+    const intermediaryRegistrationCertificate = {
+      typ: 'rc-wrp+jwt',
+      payload: { ...etsiRegistrationCertificate.payload, sub: 'VATNL-987654321', name: 'Example Intermediary' },
+    } satisfies RegistrationCertificate
+
+    const info = getRelyingPartyInfo([
+      createResult(0, intermediaryRegistrationCertificate, {
+        relyingParty: { subject: 'VATNL-987654321', name: 'Example Intermediary' },
+      }),
+      createResult(1, etsiRegistrationCertificate, {
+        intermediary: { subject: 'VATNL-987654321', name: 'Example Intermediary', verifierAttestationIndex: 0 },
+      }),
+    ])
+
+    deepEqual(info?.subject, { value: 'VATDE-123456789', trusted: true, verifierAttestationIndex: 1 })
+    deepEqual(info?.name?.value, 'Example Relying Party')
+    deepEqual(info?.intermediary, {
+      value: { subject: 'VATNL-987654321', name: 'Example Intermediary' },
+      trusted: true,
+      verifierAttestationIndex: 1,
+    })
+  })
+
+  test('Ignore invalid registration certificates', () => {
+    equal(getRelyingPartyInfo([]), undefined)
+    equal(
+      getRelyingPartyInfo([
+        createResult(0, etsiRegistrationCertificate, { isValidAndTrusted: false }),
+        createResult(1, funkeRegistrationCertificate, {
+          errors: [
+            new RelyingPartyMismatchError('subject_mismatch', 'Subject mismatch', { verifierAttestationIndex: 1 }),
+          ],
+        }),
+      ]),
+      undefined
+    )
+  })
+})
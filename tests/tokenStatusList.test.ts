@@ -0,0 +1,215 @@
+import { equal, ok, rejects } from 'node:assert'
+import { after, before, beforeEach, suite, test } from 'node:test'
+import { AskarModule } from '@credo-ts/askar'
+import { Agent, JwsService, JwtPayload, Kms, TypedArrayEncoder, type X509Certificate } from '@credo-ts/core'
+import { agentDependencies } from '@credo-ts/node'
+import { askar } from '@openwallet-foundation/askar-nodejs'
+import { Encoder } from 'cbor-x'
+import { zlibSync } from 'fflate'
+import { resolveTokenStatus, TokenStatusListError } from '../src'
+
+const modules = {
+  askar: new AskarModule({ askar, store: { id: 'status-list', key: 'status-list-key' } }),
+}
+
+const statusListUri = 'https://registrar.example.org/status/1'
+
+// Status list with the statuses (in order) valid, invalid, suspended, valid, application specific
+const statuses = [0x00, 0x01, 0x02, 0x00, 0x03]
+
+const cborEncoder = new Encoder({ tagUint8Array: false, useRecords: false, mapsAsObjects: false })
+
+const encodeStatusList = (bits: 1 | 2 | 4 | 8) => {
+  const statusList = new Uint8Array(Math.ceil((statuses.length * bits) / 8))
+  for (const [idx, status] of statuses.entries()) {
+    statusList[Math.floor((idx * bits) / 8)] |= (status & ((1 << bits) - 1)) << ((idx * bits) % 8)
+  }
+  return zlibSync(statusList)
+}
+
+suite('token status list', () => {
+  let agent: Agent<typeof modules>
+
+  let issuerKey: Kms.PublicJwk
+  let issuerCertificate: X509Certificate
+
+  const createStatusListJwt = (bits: 1 | 2 | 4 | 8, payload: Record<string, unknown> = {}) =>
+    agent.context.dependencyManager.resolve(JwsService).createJwsCompact(agent.context, {
+      keyId: issuerKey.keyId,
+      payload: JwtPayload.fromJson({
+        sub: statusListUri,
+        iat: Math.floor(Date.now() / 1000),
+        status_list: { bits, lst: TypedArrayEncoder.toBase64URL(encodeStatusList(bits)) },
+        ...payload,
+      }),
+      protectedHeaderOptions: { alg: 'ES256', typ: 'statuslist+jwt', x5c: [issuerCertificate.toString('base64')] },
+    })
+
+  const createStatusListCwt = async (bits: 1 | 2 | 4 | 8) => {
+    const protectedHeader = cborEncoder.encode(
+      new Map<number, unknown>([
+        [1, -7],
+        [16, 'application/statuslist+cwt'],
+        [33, issuerCertificate.rawCertificate],
+      ])
+    )
+    const payload = cborEncoder.encode(
+      new Map<number, unknown>([
+        [2, statusListUri],
+        [6, Math.floor(Date.now() / 1000)],
+        [
+          65534,
+          new Map<string, unknown>([
+            ['bits', bits],
+            ['lst', encodeStatusList(bits)],
+          ]),
+        ],
+      ])
+    )
+
+    const { signature } = await agent.kms.sign({
+      keyId: issuerKey.keyId,
+      algorithm: 'ES256',
+      data: cborEncoder.encode(['Signature1', protectedHeader, new Uint8Array(), payload]),
+    })
+
+    return new Uint8Array(cborEncoder.encode([protectedHeader, new Map(), payload, signature]))
+  }
+
+  before(async () => {
+    agent = new Agent({
+      config: {},
+      modules,
+      dependencies: agentDependencies,
+    })
+    await agent.initialize()
+
+    const { publicJwk } = await agent.kms.createKey({ type: { kty: 'EC', crv: 'P-256' } })
+    issuerKey = Kms.PublicJwk.fromPublicJwk(publicJwk)
+    issuerCertificate = await agent.x509.createCertificate({
+      authorityKey: issuerKey,
+      issuer: { commonName: 'Status List Issuer', countryName: 'DE' },
+    })
+  })
+
+  beforeEach(() => {
+    ok(agent.isInitialized)
+  })
+
+  after(async () => {
+    await agent.shutdown()
+  })
+
+  test('Resolve the status from a statuslist+jwt', async () => {
+    for (const bits of [2, 4, 8] as const) {
+      const token = await createStatusListJwt(bits)
+
+      const results = await Promise.all(
+        statuses.map((_, idx) =>
+          resolveTokenStatus(agent.context, {
+            reference: { idx, uri: statusListUri },
+            fetchStatusList: async () => token,
+            trustedCertificates: [issuerCertificate.toString('pem')],
+          })
+        )
+      )
+
+      equal(results.map((result) => result.status).join(','), 'valid,invalid,suspended,valid,application_specific')
+    }
+  })
+
+  test('Resolve the status from a statuslist+cwt', async () => {
+    const token = await createStatusListCwt(2)
+
+    const result = await resolveTokenStatus(agent.context, {
+      reference: { idx: 2, uri: statusListUri },
+      fetchStatusList: async () => token,
+      trustedCertificates: [issuerCertificate.toString('pem')],
+    })
+
+    equal(result.status, 'suspended')
+    equal(result.value, 0x02)
+  })
+
+  test('Resolve the status from a 1 bit status list', async () => {
+    const token = await createStatusListJwt(1)
+
+    const result = await resolveTokenStatus(agent.context, {
+      reference: { idx: 1, uri: statusListUri },
+      fetchStatusList: async () => token,
+      trustedCertificates: [issuerCertificate.toString('pem')],
+    })
+
+    equal(result.status, 'invalid')
+  })
+
+  test('Fail resolving the status from an untrusted status list token', async () => {
+    const token = await createStatusListCwt(2)
+
+    await rejects(
+      resolveTokenStatus(agent.context, {
+        reference: { idx: 0, uri: statusListUri },
+        fetchStatusList: async () => token,
+        trustedCertificates: [],
+      })
+    )
+
+    const result = await resolveTokenStatus(agent.context, {
+      reference: { idx: 0, uri: statusListUri },
+      fetchStatusList: async () => token,
+      allowUntrustedSigned: true,
+    })
+    equal(result.status, 'valid')
+  })
+
+  test('Fail resolving the status from a statuslist+cwt without trusted certificates', async () => {
+    const token = await createStatusListCwt(2)
+
+    await rejects(
+      resolveTokenStatus(agent.context, {
+        reference: { idx: 0, uri: statusListUri },
+        fetchStatusList: async () => token,
+      }),
+      TokenStatusListError
+    )
+  })
+
+  test('Fail resolving the status when the subject does not match the uri', async () => {
+    const token = await createStatusListJwt(2, { sub: 'https://registrar.example.org/status/2' })
+
+    await rejects(
+      resolveTokenStatus(agent.context, {
+        reference: { idx: 0, uri: statusListUri },
+        fetchStatusList: async () => token,
+        trustedCertificates: [issuerCertificate.toString('pem')],
+      }),
+      TokenStatusListError
+    )
+  })
+
+  test('Fail resolving the status from an expired status list token', async () => {
+    const token = await createStatusListJwt(2, { exp: Math.floor(Date.now() / 1000) - 3600 })
+
+    await rejects(
+      resolveTokenStatus(agent.context, {
+        reference: { idx: 0, uri: statusListUri },
+        fetchStatusList: async () => token,
+        trustedCertificates: [issuerCertificate.toString('pem')],
+      }),
+      /expired/
+    )
+  })
+
+  test('Fail resolving the status for an index out of bounds', async () => {
+    const token = await createStatusListJwt(8)
+
+    await rejects(
+      resolveTokenStatus(agent.context, {
+        reference: { idx: 1000, uri: statusListUri },
+        fetchStatusList: async () => token,
+        trustedCertificates: [issuerCertificate.toString('pem')],
+      }),
+      /out of bounds/
+    )
+  })
+})
@@ -0,0 +1,248 @@
+import { deepEqual, equal, throws } from 'node:assert'
+import { webcrypto } from 'node:crypto'
+import { before, suite, test } from 'node:test'
+import * as x509 from '@peculiar/x509'
+import { SignedXml } from 'xml-crypto'
+import { TrustedListError } from '../src'
+import {
+  getTrustedListCertificates,
+  loadTrustedLists,
+  parseTrustedList,
+  TrustedListServiceStatus,
+  TrustedListServiceType,
+} from '../src/trustedList'
+
+type Signer = { certificate: string; privateKey: string }
+
+const createSigner = async (name: string): Promise<Signer> => {
+  const algorithm = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256', publicExponent: new Uint8Array([1, 0, 1]) }
+  const keys = await webcrypto.subtle.generateKey({ ...algorithm, modulusLength: 2048 }, true, ['sign', 'verify'])
+  const certificate = await x509.X509CertificateGenerator.createSelfSigned(
+    {
+      serialNumber: '01',
+      name,
+      notBefore: new Date(Date.now() - 60_000),
+      notAfter: new Date(Date.now() + 86_400_000),
+      keys,
+      signingAlgorithm: algorithm,
+    },
+    webcrypto as Crypto
+  )
+  const privateKey = x509.PemConverter.encode(await webcrypto.subtle.exportKey('pkcs8', keys.privateKey), 'PRIVATE KEY')
+
+  return { certificate: certificate.toString('base64'), privateKey }
+}
+
+const digitalIdentity = (certificate: string) =>
+  `<DigitalId><X509Certificate>${certificate}</X509Certificate></DigitalId>`
+
+const createService = (serviceType: string, status: string, certificate: string, statusStartingTime = new Date()) => `
+  <TSPService>
+    <ServiceInformation>
+      <ServiceTypeIdentifier>${serviceType}</ServiceTypeIdentifier>
+      <ServiceName><Name xml:lang="de">Dienst</Name><Name xml:lang="en">Service</Name></ServiceName>
+      <ServiceDigitalIdentity>${digitalIdentity(certificate)}</ServiceDigitalIdentity>
+      <ServiceStatus>${status}</ServiceStatus>
+      <StatusStartingTime>${statusStartingTime.toISOString()}</StatusStartingTime>
+    </ServiceInformation>
+  </TSPService>`
+
+const createPointer = (territory: string, certificate: string) => `
+  <OtherTSLPointer>
+    <ServiceDigitalIdentities><ServiceDigitalIdentity>${digitalIdentity(certificate)}</ServiceDigitalIdentity></ServiceDigitalIdentities>
+    <TSLLocation>https://tl.example.org/${territory}.xml</TSLLocation>
+    <AdditionalInformation>
+      <OtherInformation><SchemeTerritory>${territory}</SchemeTerritory></OtherInformation>
+      <OtherInformation><MimeType>application/vnd.etsi.tsl+xml</MimeType></OtherInformation>
+    </AdditionalInformation>
+  </OtherTSLPointer>`
+
+const createTrustedList = (
+  signer: Signer,
+  {
+    territory = 'DE',
+    type = 'http://uri.etsi.org/TrstSvc/TrustedList/TSLType/EUgeneric',
+    pointers = [] as Array<string>,
+    services = [] as Array<string>,
+    nextUpdate = new Date(Date.now() + 86_400_000),
+  } = {}
+) => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<TrustServiceStatusList xmlns="http://uri.etsi.org/02231/v2#" Id="tsl">
+  <SchemeInformation>
+    <TSLVersionIdentifier>6</TSLVersionIdentifier>
+    <TSLSequenceNumber>42</TSLSequenceNumber>
+    <TSLType>${type}</TSLType>
+    <SchemeTerritory>${territory}</SchemeTerritory>
+    <ListIssueDateTime>${new Date(Date.now() - 60_000).toISOString()}</ListIssueDateTime>
+    <NextUpdate><dateTime>${nextUpdate.toISOString()}</dateTime></NextUpdate>
+    ${pointers.length > 0 ? `<PointersToOtherTSL>${pointers.join('')}</PointersToOtherTSL>` : ''}
+  </SchemeInformation>
+  <TrustServiceProviderList>
+    <TrustServiceProvider>
+      <TSPInformation><TSPName><Name xml:lang="en">Example Trust Service Provider</Name></TSPName></TSPInformation>
+      <TSPServices>${services.join('')}</TSPServices>
+    </TrustServiceProvider>
+  </TrustServiceProviderList>
+</TrustServiceStatusList>`
+
+  const signedXml = new SignedXml({
+    privateKey: signer.privateKey,
+    publicCert: x509.PemConverter.encode(Buffer.from(signer.certificate, 'base64'), 'CERTIFICATE'),
+    signatureAlgorithm: 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+    canonicalizationAlgorithm: 'http://www.w3.org/2001/10/xml-exc-c14n#',
+  })
+  signedXml.addReference({
+    xpath: '/*',
+    isEmptyUri: true,
+    transforms: ['http://www.w3.org/2000/09/xmldsig#enveloped-signature', 'http://www.w3.org/2001/10/xml-exc-c14n#'],
+    digestAlgorithm: 'http://www.w3.org/2001/04/xmlenc#sha256',
+  })
+  signedXml.computeSignature(xml, { location: { reference: '/*', action: 'append' } })
+
+  return signedXml.getSignedXml()
+}
+
+suite('trusted list', () => {
+  let listOfTrustedListsSigner: Signer
+  let germanSigner: Signer
+  let dutchSigner: Signer
+  let registrar: Signer
+  let accessCertificateAuthority: Signer
+
+  before(async () => {
+    listOfTrustedListsSigner = await createSigner('CN=EU List of Trusted Lists')
+    germanSigner = await createSigner('CN=German Trusted List,C=DE')
+    dutchSigner = await createSigner('CN=Dutch Trusted List,C=NL')
+    registrar = await createSigner('CN=German Registrar,C=DE')
+    accessCertificateAuthority = await createSigner('CN=German Access Certificate Authority,C=DE')
+  })
+
+  test('Parse a signed trusted list', () => {
+    const trustedList = parseTrustedList(
+      createTrustedList(germanSigner, {
+        services: [
+          createService(TrustedListServiceType.Registrar, TrustedListServiceStatus.Granted, registrar.certificate),
+        ],
+      }),
+      { signingCertificates: [germanSigner.certificate] }
+    )
+
+    equal(trustedList.territory, 'DE')
+    equal(trustedList.sequenceNumber, 42)
+    equal(trustedList.signingCertificate, germanSigner.certificate)
+    equal(trustedList.services.length, 1)
+    equal(trustedList.services[0].trustServiceProvider, 'Example Trust Service Provider')
+    equal(trustedList.services[0].serviceName, 'Service')
+    deepEqual(trustedList.services[0].certificates, [registrar.certificate])
+  })
+
+  test('Filter the certificates by service type and current status', () => {
+    const trustedList = parseTrustedList(
+      createTrustedList(germanSigner, {
+        services: [
+          createService(TrustedListServiceType.Registrar, TrustedListServiceStatus.Granted, registrar.certificate),
+          createService(
+            TrustedListServiceType.AccessCertificateAuthority,
+            TrustedListServiceStatus.Granted,
+            accessCertificateAuthority.certificate
+          ),
+          createService(TrustedListServiceType.Registrar, TrustedListServiceStatus.Withdrawn, dutchSigner.certificate),
+          createService(
+            TrustedListServiceType.Registrar,
+            TrustedListServiceStatus.Granted,
+            germanSigner.certificate,
+            new Date(Date.now() + 86_400_000)
+          ),
+        ],
+      }),
+      { signingCertificates: [germanSigner.certificate] }
+    )
+
+    deepEqual(getTrustedListCertificates([trustedList], { serviceTypes: [TrustedListServiceType.Registrar] }), [
+      registrar.certificate,
+    ])
+    deepEqual(getTrustedListCertificates([trustedList]), [
+      registrar.certificate,
+      accessCertificateAuthority.certificate,
+    ])
+    deepEqual(getTrustedListCertificates([trustedList], { territories: ['NL'] }), [])
+  })
+
+  test('Load the trusted lists referenced by the list of trusted lists', () => {
+    const listOfTrustedLists = createTrustedList(listOfTrustedListsSigner, {
+      territory: 'EU',
+      type: 'http://uri.etsi.org/TrstSvc/TrustedList/TSLType/EUlistofthelists',
+      pointers: [createPointer('DE', germanSigner.certificate), createPointer('NL', dutchSigner.certificate)],
+    })
+    const germanTrustedList = createTrustedList(germanSigner, {
+      services: [
+        createService(TrustedListServiceType.Registrar, TrustedListServiceStatus.Granted, registrar.certificate),
+      ],
+    })
+
+    const { listOfTrustedLists: parsedListOfTrustedLists, trustedLists } = loadTrustedLists({
+      listOfTrustedLists,
+      listOfTrustedListsSigningCertificates: [listOfTrustedListsSigner.certificate],
+      trustedLists: [new TextEncoder().encode(germanTrustedList)],
+    })
+
+    deepEqual(
+      parsedListOfTrustedLists.pointers.map((pointer) => [pointer.territory, pointer.mimeType]),
+      [
+        ['DE', 'application/vnd.etsi.tsl+xml'],
+        ['NL', 'application/vnd.etsi.tsl+xml'],
+      ]
+    )
+    deepEqual(getTrustedListCertificates(trustedLists), [registrar.certificate])
+
+    // Signed by the certificate of another territory
+    throws(
+      () =>
+        loadTrustedLists({
+          listOfTrustedLists,
+          listOfTrustedListsSigningCertificates: [listOfTrustedListsSigner.certificate],
+          trustedLists: [createTrustedList(dutchSigner)],
+        }),
+      TrustedListError
+    )
+  })
+
+  test('Reject trusted lists that are not validly signed or expired', () => {
+    const trustedList = createTrustedList(germanSigner, {
+      services: [
+        createService(TrustedListServiceType.Registrar, TrustedListServiceStatus.Granted, registrar.certificate),
+      ],
+    })
+
+    // Not signed by one of the signing certificates
+    throws(() => parseTrustedList(trustedList, { signingCertificates: [dutchSigner.certificate] }), TrustedListError)
+
+    // Modified after signing
+    throws(
+      () =>
+        parseTrustedList(trustedList.replace(TrustedListServiceStatus.Granted, TrustedListServiceStatus.Withdrawn), {
+          signingCertificates: [germanSigner.certificate],
+        }),
+      TrustedListError
+    )
+
+    // Not signed
+    throws(
+      () =>
+        parseTrustedList(trustedList.replace(/<Signature[\s\S]*<\/Signature>/, ''), {
+          signingCertificates: [germanSigner.certificate],
+        }),
+      TrustedListError
+    )
+
+    // Expired
+    throws(
+      () =>
+        parseTrustedList(createTrustedList(germanSigner, { nextUpdate: new Date(Date.now() - 86_400_000) }), {
+          signingCertificates: [germanSigner.certificate],
+        }),
+      TrustedListError
+    )
+  })
+})
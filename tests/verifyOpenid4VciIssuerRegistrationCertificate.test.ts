@@ -0,0 +1,258 @@
+import { deepEqual, equal, ok, rejects } from 'node:assert'
+import { after, before, beforeEach, suite, test } from 'node:test'
+import { AskarModule } from '@credo-ts/askar'
+import { Agent, JwsService, JwtPayload, Kms, type X509Certificate, X509KeyUsage } from '@credo-ts/core'
+import { agentDependencies } from '@credo-ts/node'
+import { type OpenId4VciResolvedCredentialOffer, OpenId4VcModule } from '@credo-ts/openid4vc'
+import { askar } from '@openwallet-foundation/askar-nodejs'
+import {
+  RegistrationScopeExceededError,
+  RelyingPartyMismatchError,
+  UnsupportedCredentialOfferError,
+  verifyOpenid4VciIssuerRegistrationCertificate,
+} from '../src'
+
+const modules = {
+  askar: new AskarModule({ askar, store: { id: 'secure-id', key: 'secure-key' } }),
+  openid4vc: new OpenId4VcModule(),
+}
+
+suite('verify openid4vci issuer registration certificate', () => {
+  let agent: Agent<typeof modules>
+
+  let registrarKey: Kms.PublicJwk
+  let registrarCertificate: X509Certificate
+  let issuerCertificate: X509Certificate
+
+  const createKey = async () => {
+    const { publicJwk } = await agent.kms.createKey({ type: { kty: 'EC', crv: 'P-256' } })
+    return Kms.PublicJwk.fromPublicJwk(publicJwk)
+  }
+
+  const createRegistrationCertificate = (typ: string, payload: Record<string, unknown>) =>
+    agent.context.dependencyManager.resolve(JwsService).createJwsCompact(agent.context, {
+      keyId: registrarKey.keyId,
+      payload: JwtPayload.fromJson(payload),
+      protectedHeaderOptions: { alg: 'ES256', typ, x5c: [registrarCertificate.toString('base64')] },
+    })
+
+  const createEtsiRegistrationCertificate = (overrides: Record<string, unknown> = {}) =>
+    createRegistrationCertificate('rc-wrp+jwt', {
+      sub: issuerCertificate.subject,
+      name: 'Example Issuer',
+      country: 'DE',
+      srv_description: [{ lang: 'en', value: 'Example PID issuance' }],
+      entitlements: ['https://uri.etsi.org/19475/Entitlement/PID_Provider'],
+      privacy_policy: 'https://issuer.example.org/privacy',
+      provides_attestations: [
+        { format: 'dc+sd-jwt', meta: { vct_values: ['urn:eudi:pid:de:1'] } },
+        { format: 'mso_mdoc', meta: { doctype_value: 'eu.europa.ec.eudi.pid.1' } },
+      ],
+      iat: Math.floor(Date.now() / 1000) - 60,
+      ...overrides,
+    })
+
+  const createResolvedCredentialOffer = (
+    offeredCredentialConfigurations: Record<string, Record<string, unknown>> = {
+      pid_sd_jwt: { format: 'dc+sd-jwt', vct: 'urn:eudi:pid:de:1' },
+      pid_mdoc: { format: 'mso_mdoc', doctype: 'eu.europa.ec.eudi.pid.1' },
+    },
+    { signed = true } = {}
+  ) =>
+    ({
+      metadata: {
+        credentialIssuer: { credential_issuer: 'https://issuer.example.org' },
+        signedCredentialIssuer: signed
+          ? { signer: { method: 'x5c', x5c: [issuerCertificate.toString('base64')], alg: 'ES256' } }
+          : undefined,
+        authorizationServers: [],
+        knownCredentialConfigurations: offeredCredentialConfigurations,
+      },
+      credentialOfferPayload: {
+        credential_issuer: 'https://issuer.example.org',
+        credential_configuration_ids: Object.keys(offeredCredentialConfigurations),
+      },
+      offeredCredentialConfigurations,
+    }) as unknown as OpenId4VciResolvedCredentialOffer
+
+  before(async () => {
+    agent = new Agent({
+      config: {},
+      modules,
+      dependencies: agentDependencies,
+    })
+    await agent.initialize()
+
+    registrarKey = await createKey()
+    registrarCertificate = await agent.x509.createCertificate({
+      authorityKey: registrarKey,
+      issuer: { commonName: 'German Registrar', countryName: 'DE' },
+      extensions: {
+        basicConstraints: { ca: true },
+        keyUsage: { usages: [X509KeyUsage.KeyCertSign, X509KeyUsage.DigitalSignature] },
+      },
+    })
+
+    issuerCertificate = await agent.x509.createCertificate({
+      authorityKey: await createKey(),
+      issuer: { commonName: 'Example Issuer', countryName: 'DE' },
+      extensions: {
+        subjectAlternativeName: { name: [{ type: 'dns', value: 'issuer.example.org' }] },
+      },
+    })
+  })
+
+  beforeEach(() => {
+    ok(agent.isInitialized)
+  })
+
+  after(async () => {
+    await agent.shutdown()
+  })
+
+  test('Successfully verify: every offered credential configuration is provided', async () => {
+    const result = await verifyOpenid4VciIssuerRegistrationCertificate(agent.context, {
+      resolvedCredentialOffer: createResolvedCredentialOffer(),
+      registrationCertificate: await createEtsiRegistrationCertificate(),
+      trustedCertificates: [registrarCertificate.toString('pem')],
+    })
+
+    equal(result.isValidAndTrusted, true)
+    deepEqual(result.issuer, { subject: issuerCertificate.subject, name: 'Example Issuer' })
+    deepEqual(result.unregisteredCredentialConfigurationIds, [])
+    deepEqual(result.errors, [])
+  })
+
+  test('Successfully verify: SPRIN-D registration certificate with legacy SD-JWT VC format', async () => {
+    const registrationCertificate = await createRegistrationCertificate('rc-rp+jwt', {
+      sub: issuerCertificate.subject,
+      services: [{ lang: 'en', name: 'Example PID issuance' }],
+      contact: { website: 'https://issuer.example.org', 'e-mail': 'issuer@example.org', phone: '+49 123456789' },
+      entitlements: [],
+      credentials: [],
+      privacy_policy: 'https://issuer.example.org/privacy',
+      provided_attestations: [{ format: 'dc+sd-jwt', meta: { vct_values: ['urn:eudi:pid:de:1'] } }],
+    })
+
+    const result = await verifyOpenid4VciIssuerRegistrationCertificate(agent.context, {
+      resolvedCredentialOffer: createResolvedCredentialOffer({
+        pid_sd_jwt: { format: 'vc+sd-jwt', vct: 'urn:eudi:pid:de:1' },
+      }),
+      registrationCertificate,
+      trustedCertificates: [registrarCertificate.toString('pem')],
+    })
+
+    equal(result.isValidAndTrusted, true)
+    deepEqual(result.unregisteredCredentialConfigurationIds, [])
+  })
+
+  test('Fail verify: offered credential configuration is not provided', async () => {
+    const resolvedCredentialOffer = createResolvedCredentialOffer({
+      pid_sd_jwt: { format: 'dc+sd-jwt', vct: 'urn:eudi:pid:de:1' },
+      mdl: { format: 'mso_mdoc', doctype: 'org.iso.18013.5.1.mDL' },
+      pid_other_vct: { format: 'dc+sd-jwt', vct: 'urn:eudi:pid:1' },
+    })
+    const registrationCertificate = await createEtsiRegistrationCertificate()
+
+    await rejects(
+      verifyOpenid4VciIssuerRegistrationCertificate(agent.context, {
+        resolvedCredentialOffer,
+        registrationCertificate,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      }),
+      (error) =>
+        error instanceof RegistrationScopeExceededError &&
+        error.code === 'attestation_not_provided' &&
+        error.details.credentialConfigurationId === 'mdl'
+    )
+
+    const result = await verifyOpenid4VciIssuerRegistrationCertificate(agent.context, {
+      resolvedCredentialOffer,
+      registrationCertificate,
+      trustedCertificates: [registrarCertificate.toString('pem')],
+      throwOnError: false,
+    })
+    equal(result.isValidAndTrusted, true)
+    deepEqual(result.unregisteredCredentialConfigurationIds, ['mdl', 'pid_other_vct'])
+    deepEqual(
+      result.errors.map((error) => error.code),
+      ['attestation_not_provided', 'attestation_not_provided']
+    )
+    equal((result.errors[0] as RegistrationScopeExceededError).verifierAttestationIndex, undefined)
+  })
+
+  test('Fail verify: offered W3C credential type is not provided', async () => {
+    const result = await verifyOpenid4VciIssuerRegistrationCertificate(agent.context, {
+      resolvedCredentialOffer: createResolvedCredentialOffer({
+        diploma: {
+          format: 'jwt_vc_json',
+          credential_definition: { type: ['VerifiableCredential', 'UniversityDegreeCredential'] },
+        },
+        membership: {
+          format: 'jwt_vc_json',
+          credential_definition: { type: ['VerifiableCredential', 'MembershipCredential'] },
+        },
+      }),
+      registrationCertificate: await createEtsiRegistrationCertificate({
+        provides_attestations: [
+          { format: 'jwt_vc_json', meta: { type_values: [['VerifiableCredential', 'UniversityDegreeCredential']] } },
+        ],
+      }),
+      trustedCertificates: [registrarCertificate.toString('pem')],
+      throwOnError: false,
+    })
+
+    deepEqual(result.unregisteredCredentialConfigurationIds, ['membership'])
+    deepEqual(
+      result.errors.map((error) => error.code),
+      ['attestation_not_provided']
+    )
+  })
+
+  test('Fail verify: offered credential configuration without a type', async () => {
+    const result = await verifyOpenid4VciIssuerRegistrationCertificate(agent.context, {
+      resolvedCredentialOffer: createResolvedCredentialOffer({
+        pid_sd_jwt: { format: 'dc+sd-jwt', vct: 'urn:eudi:pid:de:1' },
+        any_sd_jwt: { format: 'dc+sd-jwt' },
+      }),
+      registrationCertificate: await createEtsiRegistrationCertificate(),
+      trustedCertificates: [registrarCertificate.toString('pem')],
+      throwOnError: false,
+    })
+
+    deepEqual(result.unregisteredCredentialConfigurationIds, ['any_sd_jwt'])
+  })
+
+  test('Fail verify: registration certificate without provided attestations', async () => {
+    await rejects(
+      verifyOpenid4VciIssuerRegistrationCertificate(agent.context, {
+        resolvedCredentialOffer: createResolvedCredentialOffer(),
+        registrationCertificate: await createEtsiRegistrationCertificate({ provides_attestations: undefined }),
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      }),
+      (error) => error instanceof RegistrationScopeExceededError && error.code === 'attestation_not_provided'
+    )
+  })
+
+  test('Fail verify: issuer metadata is not signed', async () => {
+    await rejects(
+      verifyOpenid4VciIssuerRegistrationCertificate(agent.context, {
+        resolvedCredentialOffer: createResolvedCredentialOffer(undefined, { signed: false }),
+        registrationCertificate: await createEtsiRegistrationCertificate(),
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      }),
+      (error) => error instanceof UnsupportedCredentialOfferError && error.code === 'unsigned_issuer_metadata'
+    )
+  })
+
+  test('Fail verify: subject does not match the issuer access certificate', async () => {
+    await rejects(
+      verifyOpenid4VciIssuerRegistrationCertificate(agent.context, {
+        resolvedCredentialOffer: createResolvedCredentialOffer(),
+        registrationCertificate: await createEtsiRegistrationCertificate({ sub: 'CN=Other Issuer,C=DE' }),
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      }),
+      (error) => error instanceof RelyingPartyMismatchError && error.code === 'subject_mismatch'
+    )
+  })
+})
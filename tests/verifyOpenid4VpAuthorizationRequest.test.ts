@@ -1,116 +1,1452 @@
-import { equal, ok, rejects } from 'node:assert'
+import { deepEqual, equal, ok, rejects } from 'node:assert'
 import { after, before, beforeEach, suite, test } from 'node:test'
+import { isDeepStrictEqual } from 'node:util'
 import { AskarModule } from '@credo-ts/askar'
-import { Agent } from '@credo-ts/core'
+import {
+  Agent,
+  type DcqlQuery,
+  type DifPexCredentialsForRequest,
+  type DifPresentationExchangeDefinition,
+  JwsService,
+  JwtPayload,
+  Kms,
+  TypedArrayEncoder,
+  type X509Certificate,
+  X509KeyUsage,
+} from '@credo-ts/core'
 import { agentDependencies } from '@credo-ts/node'
 import { OpenId4VcModule } from '@credo-ts/openid4vc'
 import { askar } from '@openwallet-foundation/askar-nodejs'
-import { verifyOpenid4VpAuthorizationRequest } from '../src'
-
-const trustedCertificates = [
-  `-----BEGIN CERTIFICATE-----
-MIIBdTCCARugAwIBAgIUHsSmbGuWAVZVXjqoidqAVClGx4YwCgYIKoZIzj0EAwIw
-GzEZMBcGA1UEAwwQR2VybWFuIFJlZ2lzdHJhcjAeFw0yNTAzMzAxOTU4NTFaFw0y
-NjAzMzAxOTU4NTFaMBsxGTAXBgNVBAMMEEdlcm1hbiBSZWdpc3RyYXIwWTATBgcq
-hkjOPQIBBggqhkjOPQMBBwNCAASQWCESFd0Ywm9sK87XxqxDP4wOAadEKgcZFVX7
-npe3ALFkbjsXYZJsTGhVp0+B5ZtUao2NsyzJCKznPwTz2wJcoz0wOzAaBgNVHREE
-EzARgg9mdW5rZS13YWxsZXQuZGUwHQYDVR0OBBYEFMxnKLkGifbTKrxbGXcFXK6R
-FQd3MAoGCCqGSM49BAMCA0gAMEUCIQD4RiLJeuVDrEHSvkPiPfBvMxAXRC6PuExo
-pUGCFdfNLQIgHGSa5u5ZqUtCrnMiaEageO71rjzBlov0YUH4+6ELioY=
------END CERTIFICATE-----`,
-]
+import { zlibSync } from 'fflate'
+import {
+  createEtsiRegistrationCertificate as createSignedEtsiRegistrationCertificate,
+  createRegistrationCertificate as createSignedRegistrationCertificate,
+  createVerifierAttestationResolver,
+  type DcqlScopeViolation,
+  EntitlementPolicyError,
+  EudiEntitlement,
+  getX509CertificateThumbprint,
+  InvalidCertificateChainError,
+  InvalidRegistrationCertificateError,
+  RegistrationCertificateRequiredError,
+  RegistrationCertificateStatusError,
+  RegistrationScopeExceededError,
+  RelyingPartyMismatchError,
+  UnresolvableVerifierAttestationError,
+  UnsupportedAuthorizationRequestError,
+  UnsupportedVerifierAttestationError,
+  verifyOpenid4VpAuthorizationRequest,
+} from '../src'
 
 const modules = {
   askar: new AskarModule({ askar, store: { id: 'secure-id', key: 'secure-key' } }),
   openid4vc: new OpenId4VcModule(),
 }
 
-// Skip until re-implemented based on etsi spec
-suite.skip('verify openid4vp authorization request', () => {
-  suite.skip('According to https://funke-wallet.de', () => {
-    let agent: Agent<typeof modules>
+const pidSdJwtDcqlQuery = {
+  credentials: [
+    {
+      id: 'pid',
+      format: 'dc+sd-jwt',
+      meta: { vct_values: ['urn:eudi:pid:de:1'] },
+      claims: [{ path: ['given_name'] }, { path: ['family_name'] }],
+    },
+  ],
+} satisfies DcqlQuery
 
-    before(async () => {
-      agent = new Agent({
-        config: {},
-        modules,
-        dependencies: agentDependencies,
+suite('verify openid4vp authorization request', () => {
+  let agent: Agent<typeof modules>
+
+  let registrarKey: Kms.PublicJwk
+  let registrarCertificate: X509Certificate
+  let relyingPartyKey: Kms.PublicJwk
+  let relyingPartyCertificate: X509Certificate
+
+  const createKey = async () => {
+    const { publicJwk } = await agent.kms.createKey({ type: { kty: 'EC', crv: 'P-256' } })
+    return Kms.PublicJwk.fromPublicJwk(publicJwk)
+  }
+
+  const createRegistrationCertificate = (
+    typ: string,
+    payload: Record<string, unknown>,
+    {
+      key = registrarKey,
+      certificate = registrarCertificate,
+      x5c = [certificate.toString('base64')],
+      header = {},
+    }: {
+      key?: Kms.PublicJwk
+      certificate?: X509Certificate
+      x5c?: Array<string>
+      header?: Record<string, unknown>
+    } = {}
+  ) =>
+    agent.context.dependencyManager.resolve(JwsService).createJwsCompact(agent.context, {
+      keyId: key.keyId,
+      payload: JwtPayload.fromJson(payload),
+      protectedHeaderOptions: { alg: 'ES256', typ, x5c, ...header },
+    })
+
+  const createEtsiRegistrationCertificate = (
+    overrides: Record<string, unknown> = {},
+    signer?: Parameters<typeof createRegistrationCertificate>[2]
+  ) =>
+    createRegistrationCertificate(
+      'rc-wrp+jwt',
+      {
+        sub: relyingPartyCertificate.subject,
+        name: 'Example Relying Party',
+        country: 'DE',
+        srv_description: [{ lang: 'en', value: 'Example service' }],
+        entitlements: ['https://uri.etsi.org/19475/Entitlement/Service_Provider'],
+        privacy_policy: 'https://rp.example.org/privacy',
+        purpose: [{ lang: 'en', value: 'Identification' }],
+        credentials: [
+          {
+            format: 'dc+sd-jwt',
+            meta: { vct_values: ['urn:eudi:pid:de:1'] },
+            claims: [{ path: ['given_name'] }, { path: ['family_name'] }, { path: ['birthdate'] }],
+          },
+        ],
+        iat: Math.floor(Date.now() / 1000) - 60,
+        ...overrides,
+      },
+      signer
+    )
+
+  const resolveAuthorizationRequest = async (
+    registrationCertificate: string,
+    query: Record<string, unknown> = { dcql_query: pidSdJwtDcqlQuery },
+    { key = relyingPartyKey, certificate = relyingPartyCertificate } = {}
+  ) => {
+    const clientId = 'x509_san_dns:rp.example.org'
+    const request = await agent.context.dependencyManager.resolve(JwsService).createJwsCompact(agent.context, {
+      keyId: key.keyId,
+      payload: JwtPayload.fromJson({
+        client_id: clientId,
+        response_type: 'vp_token',
+        response_mode: 'direct_post',
+        response_uri: 'https://rp.example.org/response',
+        nonce: 'a-random-nonce',
+        verifier_attestations: [{ format: 'jwt', data: registrationCertificate }],
+        ...query,
+      }),
+      protectedHeaderOptions: {
+        alg: 'ES256',
+        typ: 'oauth-authz-req+jwt',
+        x5c: [certificate.toString('base64')],
+      },
+    })
+
+    return agent.openid4vc.holder.resolveOpenId4VpAuthorizationRequest(
+      `openid4vp://?client_id=${encodeURIComponent(clientId)}&request=${request}`,
+      { trustedCertificates: [certificate.toString('pem')] }
+    )
+  }
+
+  before(async () => {
+    agent = new Agent({
+      config: {},
+      modules,
+      dependencies: agentDependencies,
+    })
+    await agent.initialize()
+
+    registrarKey = await createKey()
+    registrarCertificate = await agent.x509.createCertificate({
+      authorityKey: registrarKey,
+      issuer: { commonName: 'German Registrar', countryName: 'DE' },
+      extensions: {
+        basicConstraints: { ca: true },
+        keyUsage: { usages: [X509KeyUsage.KeyCertSign, X509KeyUsage.DigitalSignature] },
+      },
+    })
+
+    relyingPartyKey = await createKey()
+    relyingPartyCertificate = await agent.x509.createCertificate({
+      authorityKey: relyingPartyKey,
+      issuer: { commonName: 'Example Relying Party', countryName: 'DE' },
+      extensions: {
+        subjectAlternativeName: { name: [{ type: 'dns', value: 'rp.example.org' }] },
+      },
+    })
+  })
+
+  beforeEach(() => {
+    ok(agent.isInitialized)
+  })
+
+  after(async () => {
+    await agent.shutdown()
+  })
+
+  suite('ETSI TS 119 475', () => {
+    test('Successfully verify: valid request, dcql', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate())
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      })
+
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+      equal(result.verifierAttestations[0].isValidButUntrusted, false)
+      equal(result.verifierAttestations[0].registrationCertificate?.typ, 'rc-wrp+jwt')
+      equal(result.verifierAttestations[0].registrationCertificate?.payload.sub, relyingPartyCertificate.subject)
+    })
+
+    test('Successfully verify: valid request, dcql, allow all certificates', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate())
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        allowUntrustedSigned: true,
+      })
+
+      equal(result.verifierAttestations[0].isValidAndTrusted, false)
+      equal(result.verifierAttestations[0].isValidButUntrusted, true)
+    })
+
+    test('Successfully verify: registration certificate created from the dcql query', async () => {
+      const registrationCertificate = await createSignedEtsiRegistrationCertificate(agent.context, {
+        subject: relyingPartyCertificate.subject,
+        name: 'Example Relying Party',
+        dcqlQuery: pidSdJwtDcqlQuery,
+        serviceDescriptions: [{ lang: 'en', value: 'Example service' }],
+        entitlements: [EudiEntitlement.ServiceProvider],
+        privacyPolicy: 'https://rp.example.org/privacy',
+        signer: { keyId: registrarKey.keyId, x5c: [registrarCertificate] },
+      })
+      const request = await resolveAuthorizationRequest(registrationCertificate)
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      })
+
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+      equal(result.verifierAttestations[0].registrationCertificate?.typ, 'rc-wrp+jwt')
+      deepEqual(result.verifierAttestations[0].errors, [])
+    })
+
+    test('Fail verify: overasking, dcql', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate({
+          credentials: [
+            {
+              format: 'dc+sd-jwt',
+              meta: { vct_values: ['urn:eudi:pid:de:1'] },
+              claims: [{ path: ['given_name'] }],
+            },
+          ],
+        })
+      )
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: request,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+        }),
+        /not equal or a valid subset/
+      )
+    })
+
+    test('Fail verify: missing required claim', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate({ entitlements: undefined })
+      )
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: request,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+        })
+      )
+    })
+
+    test('Fail verify: subject does not match the access certificate', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate({ sub: 'C=DE, CN=Another Relying Party' })
+      )
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: request,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+        }),
+        /is not equal to the subject of the registration certificate/
+      )
+    })
+  })
+
+  suite('Presentation Exchange', () => {
+    const withPresentationDefinition = (
+      request: Awaited<ReturnType<typeof resolveAuthorizationRequest>>,
+      definition: DifPresentationExchangeDefinition
+    ) => ({
+      ...request,
+      dcql: undefined,
+      presentationExchange: { definition, credentialsForRequest: {} as DifPexCredentialsForRequest },
+    })
+
+    const pidSdJwtPresentationDefinition = (fields: Array<string>): DifPresentationExchangeDefinition => ({
+      id: 'pid',
+      input_descriptors: [
+        {
+          id: 'pid',
+          format: { 'vc+sd-jwt': {} },
+          constraints: {
+            limit_disclosure: 'required',
+            fields: [
+              { path: ['$.vct'], filter: { type: 'string', const: 'urn:eudi:pid:de:1' } },
+              ...fields.map((field) => ({ path: [`$.${field}`] })),
+            ],
+          },
+        },
+      ],
+    })
+
+    test('Successfully verify: valid request, pex', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate())
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: withPresentationDefinition(
+          request,
+          pidSdJwtPresentationDefinition(['given_name', 'family_name'])
+        ),
+        trustedCertificates: [registrarCertificate.toString('pem')],
       })
-      await agent.initialize()
+
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
     })
 
-    beforeEach(() => {
-      ok(agent.isInitialized)
+    test('Fail verify: overasking, pex', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate())
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: withPresentationDefinition(
+            request,
+            pidSdJwtPresentationDefinition(['given_name', 'nationalities'])
+          ),
+          trustedCertificates: [registrarCertificate.toString('pem')],
+        }),
+        (error) =>
+          error instanceof RegistrationScopeExceededError && error.code === 'presentation_definition_not_subset'
+      )
     })
 
-    after(async () => {
-      await agent.shutdown()
+    test('Fail verify: presentation definition can not be converted', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate())
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: withPresentationDefinition(request, {
+            id: 'pid',
+            input_descriptors: [{ id: 'pid', format: { jwt_vc_json: { alg: ['ES256'] } }, constraints: {} }],
+          }),
+          trustedCertificates: [registrarCertificate.toString('pem')],
+        }),
+        (error) =>
+          error instanceof UnsupportedAuthorizationRequestError && error.code === 'presentation_exchange_not_supported'
+      )
     })
 
-    test('Successfully verify: draft-24, valid request, dcql', async () => {
-      const authorizationRequestUrl =
-        'openid4vp://?client_id=x509_san_dns%3Afunke-wallet.de&request_uri=https%3A%2F%2Ffunke-wallet.de%2Foid4vp%2Fdraft-24%2Fvalid-request%2Fdcql'
+    test('Fail verify: presentation definition can not be matched against a required registration certificate', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate(), {
+        dcql_query: pidSdJwtDcqlQuery,
+        verifier_attestations: undefined,
+      })
 
-      const request = await agent.openid4vc.holder.resolveOpenId4VpAuthorizationRequest(authorizationRequestUrl, {
-        trustedCertificates,
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: withPresentationDefinition(request, {
+          id: 'pid',
+          input_descriptors: [{ id: 'pid', format: { jwt_vc_json: { alg: ['ES256'] } }, constraints: {} }],
+        }),
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        requireRegistrationCertificate: { vcts: ['urn:eudi:pid:de:1'] },
+        throwOnError: false,
       })
 
+      equal(result.verdict, 'invalid')
+      ok(result.errors[0] instanceof RegistrationCertificateRequiredError)
+    })
+  })
+
+  suite('Entitlement policy', () => {
+    test('Successfully verify: relying party holds the required entitlement', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate())
+
       const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
         resolvedAuthorizationRequest: request,
-        trustedCertificates,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        entitlementPolicy: {
+          restrictions: [{ vctValues: ['urn:eudi:pid:de:1'], entitlements: [EudiEntitlement.ServiceProvider] }],
+        },
       })
 
-      equal(result?.[0].isValidAndTrusted, true)
-      equal(result?.[0].isValidButUntrusted, false)
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+    })
+
+    test('Fail verify: credential is reserved for public bodies', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate())
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: request,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+          entitlementPolicy: { restrictions: [{ vctValues: ['urn:eudi:pid:de:1'], publicBody: true }] },
+        }),
+        (error) => error instanceof EntitlementPolicyError && error.code === 'public_body_required'
+      )
     })
 
-    test('Successfully verify: draft-24, valid request, dcql, allow all certificates', async () => {
-      const authorizationRequestUrl =
-        'openid4vp://?client_id=x509_san_dns%3Afunke-wallet.de&request_uri=https%3A%2F%2Ffunke-wallet.de%2Foid4vp%2Fdraft-24%2Fvalid-request%2Fdcql'
+    test('Fail verify: unknown entitlement', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate({ entitlements: ['https://example.org/entitlement'] })
+      )
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        entitlementPolicy: {},
+        throwOnError: false,
+      })
+
+      deepEqual(
+        result.verifierAttestations[0].errors.map((error) => error.code),
+        ['unknown_entitlement']
+      )
+    })
 
-      const request = await agent.openid4vc.holder.resolveOpenId4VpAuthorizationRequest(authorizationRequestUrl, {
-        trustedCertificates,
+    test('Fail verify: restricted credential is requested without a registration certificate', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate(), {
+        dcql_query: pidSdJwtDcqlQuery,
+        verifier_attestations: undefined,
       })
 
       const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
         resolvedAuthorizationRequest: request,
-        allowUntrustedSigned: true,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        entitlementPolicy: {
+          restrictions: [{ vctValues: ['urn:eudi:pid:de:1'], entitlements: [EudiEntitlement.ServiceProvider] }],
+        },
+        throwOnError: false,
       })
 
-      equal(result?.[0].isValidAndTrusted, false)
-      equal(result?.[0].isValidButUntrusted, true)
+      equal(result.verdict, 'invalid')
+      deepEqual(
+        result.errors.map(({ code, details }) => ({ code, details })),
+        [
+          {
+            code: 'entitlement_required',
+            details: { credentialQueryId: 'pid', requiredEntitlements: [EudiEntitlement.ServiceProvider] },
+          },
+        ]
+      )
     })
+  })
 
-    test('Fail verify: draft-24, valid request, pex', async () => {
-      const authorizationRequestUrl =
-        'openid4vp://?client_id=x509_san_dns%3Afunke-wallet.de&request_uri=https%3A%2F%2Ffunke-wallet.de%2Foid4vp%2Fdraft-24%2Fvalid-request%2Fpex'
+  suite('According to https://funke-wallet.de', () => {
+    const createFunkeRegistrationCertificate = (overrides: Record<string, unknown> = {}) =>
+      createRegistrationCertificate('rc-rp+jwt', {
+        sub: relyingPartyCertificate.subject,
+        contact: { website: 'https://rp.example.org', 'e-mail': 'contact@rp.example.org', phone: '+49123456789' },
+        services: [{ lang: 'en', name: 'Example service' }],
+        entitlements: [],
+        privacy_policy: 'https://rp.example.org/privacy',
+        credentials: [
+          {
+            format: 'dc+sd-jwt',
+            meta: { vct_values: ['urn:eudi:pid:de:1'] },
+            claims: [{ path: ['given_name'] }, { path: ['family_name'] }],
+          },
+        ],
+        iat: Math.floor(Date.now() / 1000) - 60,
+        ...overrides,
+      })
+
+    test('Successfully verify: valid request, dcql', async () => {
+      const request = await resolveAuthorizationRequest(await createFunkeRegistrationCertificate())
 
-      const request = await agent.openid4vc.holder.resolveOpenId4VpAuthorizationRequest(authorizationRequestUrl, {
-        trustedCertificates,
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
       })
 
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+      equal(result.verifierAttestations[0].isValidButUntrusted, false)
+    })
+
+    test('Successfully verify: registration certificate created from the dcql query', async () => {
+      const registrationCertificate = await createSignedRegistrationCertificate(agent.context, {
+        subject: relyingPartyCertificate.subject,
+        dcqlQuery: pidSdJwtDcqlQuery,
+        contact: { website: 'https://rp.example.org', email: 'contact@rp.example.org', phone: '+49123456789' },
+        services: [{ lang: 'en', name: 'Example service' }],
+        privacyPolicy: 'https://rp.example.org/privacy',
+        signer: { keyId: registrarKey.keyId, x5c: [registrarCertificate] },
+      })
+      const request = await resolveAuthorizationRequest(registrationCertificate)
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      })
+
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+      deepEqual(result.verifierAttestations[0].errors, [])
+    })
+
+    test('Fail verify: overasking, dcql', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createFunkeRegistrationCertificate({
+          credentials: [
+            {
+              format: 'dc+sd-jwt',
+              meta: { vct_values: ['urn:eudi:pid:de:1'] },
+              claims: [{ path: ['given_name'] }],
+            },
+          ],
+        })
+      )
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: request,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+        })
+      )
+    })
+  })
+
+  test('Fail verify: unsupported registration certificate typ', async () => {
+    const request = await resolveAuthorizationRequest(
+      await createRegistrationCertificate('jwt', { sub: relyingPartyCertificate.subject })
+    )
+
+    await rejects(
+      verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      }),
+      /are supported as header typ/
+    )
+  })
+
+  suite('Verification errors', () => {
+    test('Throws a typed error with a stable code', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate({
+          credentials: [
+            { format: 'dc+sd-jwt', meta: { vct_values: ['urn:eudi:pid:de:1'] }, claims: [{ path: ['given_name'] }] },
+          ],
+        })
+      )
+
       await rejects(
         verifyOpenid4VpAuthorizationRequest(agent.context, {
           resolvedAuthorizationRequest: request,
-          trustedCertificates,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+        }),
+        (error) =>
+          error instanceof RegistrationScopeExceededError &&
+          error.code === 'dcql_not_subset' &&
+          error.verifierAttestationIndex === 0
+      )
+    })
+
+    test('Returns every error across all verifier attestations when throwOnError is disabled', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate(), {
+        dcql_query: pidSdJwtDcqlQuery,
+        verifier_attestations: [
+          { format: 'jwt', data: await createEtsiRegistrationCertificate() },
+          {
+            format: 'jwt',
+            data: await createEtsiRegistrationCertificate({
+              sub: 'C=DE, CN=Another Relying Party',
+              iat: Math.floor(Date.now() / 1000) + 3600,
+              credentials: [{ format: 'mso_mdoc', meta: { doctype_value: 'org.iso.18013.5.1.mDL' } }],
+            }),
+          },
+          { format: 'jwt', data: await createRegistrationCertificate('jwt', {}) },
+        ],
+      })
+
+      const results = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        throwOnError: false,
+      })
+
+      deepEqual(
+        results.verifierAttestations.map((result) => result.errors.map((error) => error.code)),
+        [[], ['subject_mismatch', 'issued_in_future', 'dcql_not_subset'], ['unsupported_typ']]
+      )
+      equal(results.verifierAttestations[0].isValidAndTrusted, true)
+      ok(results.verifierAttestations[1].errors[1] instanceof InvalidRegistrationCertificateError)
+      equal(results.verifierAttestations[2].errors[0].verifierAttestationIndex, 2)
+      ok(results.verifierAttestations[2].errors[0] instanceof UnsupportedVerifierAttestationError)
+    })
+
+    test('Reports registration certificates that are not signed by a trusted certificate', async () => {
+      const verify = async (registrationCertificate: string, options: { allowUntrustedSigned?: boolean } = {}) => {
+        const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: await resolveAuthorizationRequest(registrationCertificate),
+          trustedCertificates: [registrarCertificate.toString('pem')],
+          throwOnError: false,
+          ...options,
         })
+
+        equal(result.verdict, 'invalid')
+        return result.verifierAttestations[0].errors.map((error) => error.code)
+      }
+
+      const untrustedKey = await createKey()
+      const untrustedCertificate = await agent.x509.createCertificate({
+        authorityKey: untrustedKey,
+        issuer: { commonName: 'Untrusted Registrar', countryName: 'DE' },
+      })
+      deepEqual(
+        await verify(
+          await createEtsiRegistrationCertificate({}, { key: untrustedKey, certificate: untrustedCertificate })
+        ),
+        ['untrusted_signature']
+      )
+
+      // Signed with another key than the key of the certificate
+      deepEqual(await verify(await createEtsiRegistrationCertificate({}, { key: relyingPartyKey })), [
+        'invalid_signature',
+      ])
+
+      deepEqual(await verify(await createEtsiRegistrationCertificate({}, { header: { x5c: undefined } })), [
+        'certificate_missing',
+      ])
+
+      const expiredCertificate = await agent.x509.createCertificate({
+        authorityKey: untrustedKey,
+        issuer: { commonName: 'Expired Registrar', countryName: 'DE' },
+        validity: { notBefore: new Date(Date.now() - 7_200_000), notAfter: new Date(Date.now() - 3_600_000) },
+      })
+      deepEqual(
+        await verify(
+          await createEtsiRegistrationCertificate({}, { key: untrustedKey, certificate: expiredCertificate }),
+          { allowUntrustedSigned: true }
+        ),
+        ['invalid_certificate_chain']
+      )
+    })
+
+    test('Throws for registration certificates that are not signed by a trusted certificate', async () => {
+      const untrustedKey = await createKey()
+      const untrustedCertificate = await agent.x509.createCertificate({
+        authorityKey: untrustedKey,
+        issuer: { commonName: 'Untrusted Registrar', countryName: 'DE' },
+      })
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: await resolveAuthorizationRequest(
+            await createEtsiRegistrationCertificate({}, { key: untrustedKey, certificate: untrustedCertificate })
+          ),
+          trustedCertificates: [registrarCertificate.toString('pem')],
+        }),
+        (error) => error instanceof InvalidRegistrationCertificateError && error.code === 'untrusted_signature'
       )
     })
+  })
 
-    test('Fail verify: draft-24, overasking, dcql', async () => {
-      const authorizationRequestUrl =
-        'openid4vp://?client_id=x509_san_dns%3Afunke-wallet.de&request_uri=https%3A%2F%2Ffunke-wallet.de%2Foid4vp%2Fdraft-24%2Foverask%2Fdcql'
+  suite('Registration certificate status', () => {
+    const statusListUri = 'https://registrar.example.org/status/1'
 
-      const request = await agent.openid4vc.holder.resolveOpenId4VpAuthorizationRequest(authorizationRequestUrl, {
-        trustedCertificates,
+    // idx 0 is valid, idx 1 is revoked and idx 2 is suspended
+    const fetchStatusList = () =>
+      agent.context.dependencyManager.resolve(JwsService).createJwsCompact(agent.context, {
+        keyId: registrarKey.keyId,
+        payload: JwtPayload.fromJson({
+          sub: statusListUri,
+          iat: Math.floor(Date.now() / 1000),
+          status_list: { bits: 2, lst: TypedArrayEncoder.toBase64URL(zlibSync(new Uint8Array([0b100100]))) },
+        }),
+        protectedHeaderOptions: {
+          alg: 'ES256',
+          typ: 'statuslist+jwt',
+          x5c: [registrarCertificate.toString('base64')],
+        },
       })
 
+    test('Successfully verify: valid status', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate({ status: { status_list: { idx: 0, uri: statusListUri } } })
+      )
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        registrationCertificateStatus: { fetchStatusList },
+      })
+
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+      equal(result.verifierAttestations[0].registrationCertificateStatus?.status, 'valid')
+    })
+
+    test('Fail verify: revoked', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate({ status: { status_list: { idx: 1, uri: statusListUri } } })
+      )
+
       await rejects(
         verifyOpenid4VpAuthorizationRequest(agent.context, {
           resolvedAuthorizationRequest: request,
-          trustedCertificates,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+          registrationCertificateStatus: { fetchStatusList },
+        }),
+        (error) => error instanceof RegistrationCertificateStatusError && error.code === 'status_invalid'
+      )
+    })
+
+    test('Flag suspended registration certificate', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate({ status: { status_list: { idx: 2, uri: statusListUri } } })
+      )
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        registrationCertificateStatus: { fetchStatusList, onRevokedOrSuspended: 'flag' },
+      })
+
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+      equal(result.verifierAttestations[0].registrationCertificateStatus?.status, 'suspended')
+    })
+
+    test('Fail verify: status list can not be fetched', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate({ status: { status_list: { idx: 0, uri: statusListUri } } })
+      )
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: request,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+          registrationCertificateStatus: {
+            fetchStatusList: async () => {
+              throw new Error('Network error')
+            },
+          },
+        }),
+        (error) => error instanceof RegistrationCertificateStatusError && error.code === 'status_unverifiable'
+      )
+    })
+  })
+
+  suite('Certificate chains', () => {
+    test('Successfully verify: registration certificate signed through an intermediate certificate', async () => {
+      const intermediateKey = await createKey()
+      const intermediateCertificate = await agent.x509.createCertificate({
+        authorityKey: registrarKey,
+        subjectPublicKey: intermediateKey,
+        issuer: registrarCertificate.subject,
+        subject: { commonName: 'German Registrar Intermediate', countryName: 'DE' },
+        extensions: {
+          basicConstraints: { ca: true, pathLenConstraint: 0 },
+          keyUsage: { usages: [X509KeyUsage.KeyCertSign] },
+        },
+      })
+      const signingKey = await createKey()
+      const signingCertificate = await agent.x509.createCertificate({
+        authorityKey: intermediateKey,
+        subjectPublicKey: signingKey,
+        issuer: intermediateCertificate.subject,
+        subject: { commonName: 'German Registrar Signer', countryName: 'DE' },
+        extensions: { keyUsage: { usages: [X509KeyUsage.DigitalSignature] } },
+      })
+
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate(
+          {},
+          {
+            key: signingKey,
+            x5c: [signingCertificate.toString('base64'), intermediateCertificate.toString('base64')],
+          }
+        )
+      )
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      })
+
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+      deepEqual(
+        result.verifierAttestations[0].registrationCertificateChain?.map((certificate) => certificate.subject),
+        [registrarCertificate.subject, intermediateCertificate.subject, signingCertificate.subject]
+      )
+      equal(result.verifierAttestations[0].accessCertificateChain?.length, 1)
+      ok(result.verifierAttestations[0].accessCertificateChain?.[0].equal(relyingPartyCertificate))
+    })
+
+    test('Fail verify: access certificate is not trusted', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate())
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        trustedAccessCertificates: [registrarCertificate.toString('pem')],
+        throwOnError: false,
+      })
+
+      deepEqual(
+        result.verifierAttestations[0].errors.map((error) => error.code),
+        ['invalid_access_certificate_chain']
+      )
+      ok(result.verifierAttestations[0].errors[0] instanceof InvalidCertificateChainError)
+      equal(result.verifierAttestations[0].accessCertificateChain, undefined)
+    })
+  })
+
+  suite('Certificate references', () => {
+    const registrarCertificateUri = 'https://registrar.example.org/certificate.pem'
+    const fetchCertificateChain = async (uri: string) => {
+      equal(uri, registrarCertificateUri)
+      return registrarCertificate.toString('pem')
+    }
+
+    test('Successfully verify: certificate referenced through x5u', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate({}, { header: { x5c: undefined, x5u: registrarCertificateUri } })
+      )
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        fetchCertificateChain,
+      })
+
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+      ok(result.verifierAttestations[0].registrationCertificateChain?.[0].equal(registrarCertificate))
+    })
+
+    test('Successfully verify: only the thumbprint of a trusted certificate', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate(
+          {},
+          { header: { x5c: undefined, 'x5t#s256': getX509CertificateThumbprint(registrarCertificate) } }
+        )
+      )
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      })
+
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+    })
+
+    test('Fail verify: thumbprint does not match the certificate', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate(
+          {},
+          { header: { 'x5t#s256': getX509CertificateThumbprint(relyingPartyCertificate) } }
+        )
+      )
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: request,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+        }),
+        (error) => error instanceof InvalidRegistrationCertificateError && error.code === 'thumbprint_mismatch'
+      )
+    })
+
+    test('Fail verify: certificate chain can not be fetched from x5u', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate({}, { header: { x5c: undefined, x5u: registrarCertificateUri } })
+      )
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        fetchCertificateChain: async () => {
+          throw new Error('Network error')
+        },
+        throwOnError: false,
+      })
+
+      equal(result.verifierAttestations[0].isValidAndTrusted, false)
+      deepEqual(
+        result.verifierAttestations[0].errors.map((error) => error.code),
+        ['certificate_unresolvable']
+      )
+    })
+  })
+
+  suite('Verifier attestations by reference', () => {
+    const registrationCertificateUri = 'https://registrar.example.org/registration-certificates/1'
+
+    test('Successfully verify: registration certificate passed by reference', async () => {
+      const registrationCertificate = await createEtsiRegistrationCertificate()
+      const request = await resolveAuthorizationRequest(registrationCertificate, {
+        dcql_query: pidSdJwtDcqlQuery,
+        verifier_attestations: [{ format: 'jwt', data: { uri: registrationCertificateUri } }],
+      })
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        resolveVerifierAttestation: createVerifierAttestationResolver({
+          fetch: async () =>
+            new Response(registrationCertificate, { headers: { 'Content-Type': 'application/rc-wrp+jwt' } }),
+        }),
+      })
+
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+    })
+
+    test('Fail verify: registration certificate reference can not be resolved', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate(), {
+        dcql_query: pidSdJwtDcqlQuery,
+        verifier_attestations: [{ format: 'jwt', data: { uri: registrationCertificateUri } }],
+      })
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: request,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+          resolveVerifierAttestation: createVerifierAttestationResolver({
+            fetch: async () => new Response('<html></html>', { headers: { 'Content-Type': 'text/html' } }),
+          }),
+        }),
+        (error) => error instanceof UnresolvableVerifierAttestationError && error.code === 'unresolvable_reference'
+      )
+    })
+  })
+
+  suite('Verifier info', () => {
+    const pidAndMdlDcqlQuery = {
+      credentials: [
+        ...pidSdJwtDcqlQuery.credentials,
+        { id: 'mdl', format: 'mso_mdoc', meta: { doctype_value: 'org.iso.18013.5.1.mDL' } },
+      ],
+    } satisfies DcqlQuery
+
+    test('Successfully verify: registration certificate in verifier_info', async () => {
+      const registrationCertificate = await createEtsiRegistrationCertificate()
+      const request = await resolveAuthorizationRequest(registrationCertificate, {
+        dcql_query: pidSdJwtDcqlQuery,
+        verifier_attestations: undefined,
+        verifier_info: [{ format: 'jwt', data: registrationCertificate }],
+      })
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      })
+
+      equal(result.verifierAttestations.length, 1)
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+    })
+
+    test('Successfully verify: only the credential queries referenced by credential_ids are checked', async () => {
+      const registrationCertificate = await createEtsiRegistrationCertificate()
+      const request = await resolveAuthorizationRequest(registrationCertificate, {
+        dcql_query: pidAndMdlDcqlQuery,
+        verifier_attestations: undefined,
+        verifier_info: [{ format: 'jwt', data: registrationCertificate, credential_ids: ['pid'] }],
+      })
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      })
+
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+      deepEqual(result.verifierAttestations[0].errors, [])
+
+      // The mdl is not checked against any registration certificate
+      deepEqual(result.unreferencedCredentialQueryIds, ['mdl'])
+      equal(result.verdict, 'valid_but_untrusted')
+    })
+
+    test('Fail verify: referenced credential query is not in the registration certificate', async () => {
+      const registrationCertificate = await createEtsiRegistrationCertificate()
+      const request = await resolveAuthorizationRequest(registrationCertificate, {
+        dcql_query: pidAndMdlDcqlQuery,
+        verifier_attestations: undefined,
+        verifier_info: [{ format: 'jwt', data: registrationCertificate, credential_ids: ['pid', 'mdl'] }],
+      })
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: request,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+        }),
+        (error) =>
+          error instanceof RegistrationScopeExceededError &&
+          error.code === 'dcql_not_subset' &&
+          isDeepStrictEqual(error.details.credentialQueryIds, ['pid', 'mdl']) &&
+          isDeepStrictEqual(
+            (error.details.violations as Array<DcqlScopeViolation>).map((violation) => violation.credentialQueryId),
+            ['mdl']
+          )
+      )
+    })
+  })
+
+  suite('Credential sets', () => {
+    const pidMdocCredentialQuery = {
+      id: 'pid_mdoc',
+      format: 'mso_mdoc',
+      meta: { doctype_value: 'eu.europa.ec.eudi.pid.1' },
+      claims: [{ path: ['eu.europa.ec.eudi.pid.1', 'given_name'] }],
+    }
+
+    // The PID as SD-JWT VC or as mdoc
+    const pidDcqlQuery = {
+      credentials: [...pidSdJwtDcqlQuery.credentials, pidMdocCredentialQuery],
+      credential_sets: [{ options: [['pid'], ['pid_mdoc']] }],
+    }
+
+    const createPidRegistrationCertificate = () =>
+      createEtsiRegistrationCertificate({
+        credentials: [
+          { id: 'sd', format: 'dc+sd-jwt', meta: { vct_values: ['urn:eudi:pid:de:1'] } },
+          { ...pidMdocCredentialQuery, id: 'md' },
+        ],
+        credential_sets: [{ options: [['sd'], ['md']] }],
+      })
+
+    test('Successfully verify: credential sets of the request are alternatives of the registration certificate', async () => {
+      const registrationCertificate = await createPidRegistrationCertificate()
+      const request = await resolveAuthorizationRequest(registrationCertificate, { dcql_query: pidDcqlQuery })
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      })
+
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+      deepEqual(result.verifierAttestations[0].errors, [])
+    })
+
+    test('Successfully verify: credential sets are limited to the credential_ids of the verifier info', async () => {
+      const registrationCertificate = await createPidRegistrationCertificate()
+      const request = await resolveAuthorizationRequest(registrationCertificate, {
+        dcql_query: {
+          credentials: [
+            ...pidDcqlQuery.credentials,
+            { id: 'mdl', format: 'mso_mdoc', meta: { doctype_value: 'org.iso.18013.5.1.mDL' } },
+          ],
+          credential_sets: [...pidDcqlQuery.credential_sets, { options: [['mdl']], required: false }],
+        },
+        verifier_attestations: undefined,
+        verifier_info: [{ format: 'jwt', data: registrationCertificate, credential_ids: ['pid', 'pid_mdoc'] }],
+      })
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      })
+
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+      deepEqual(result.verifierAttestations[0].errors, [])
+    })
+
+    test('Fail verify: both alternatives of the registration certificate are requested together', async () => {
+      const registrationCertificate = await createPidRegistrationCertificate()
+      const request = await resolveAuthorizationRequest(registrationCertificate, {
+        dcql_query: { credentials: pidDcqlQuery.credentials },
+      })
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: request,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+        }),
+        (error) =>
+          error instanceof RegistrationScopeExceededError &&
+          error.code === 'dcql_not_subset' &&
+          isDeepStrictEqual(
+            (error.details.violations as Array<DcqlScopeViolation>).map((violation) => violation.code),
+            ['credential_combination_not_registered']
+          )
+      )
+    })
+  })
+
+  suite('Verdict', () => {
+    const requireRegistrationCertificate = { vcts: ['urn:eudi:pid:de:1'] }
+
+    test('Successfully verify: absent verifier attestations', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate(), {
+        dcql_query: pidSdJwtDcqlQuery,
+        verifier_attestations: undefined,
+      })
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      })
+
+      equal(result.verdict, 'absent')
+      deepEqual(result.verifierAttestations, [])
+    })
+
+    test('Successfully verify: valid and trusted or valid but untrusted', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate())
+
+      const trusted = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        requireRegistrationCertificate,
+      })
+      equal(trusted.verdict, 'valid_and_trusted')
+
+      const untrusted = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [relyingPartyCertificate.toString('pem')],
+        allowUntrustedSigned: true,
+      })
+      equal(untrusted.verdict, 'valid_but_untrusted')
+    })
+
+    test('Fail verify: invalid verifier attestation', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate({ sub: 'C=DE, CN=Another Relying Party' })
+      )
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        throwOnError: false,
+      })
+
+      equal(result.verdict, 'invalid')
+    })
+
+    test('Fail verify: required registration certificate is absent', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate(), {
+        dcql_query: pidSdJwtDcqlQuery,
+        verifier_attestations: undefined,
+      })
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: request,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+          requireRegistrationCertificate,
+        }),
+        RegistrationCertificateRequiredError
+      )
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        requireRegistrationCertificate,
+        throwOnError: false,
+      })
+      equal(result.verdict, 'invalid')
+      deepEqual(
+        result.errors.map(({ code, details }) => ({ code, details })),
+        [{ code: 'registration_certificate_required', details: { credentialQueryId: 'pid' } }]
+      )
+
+      // Not required for other credential types
+      const otherResult = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        requireRegistrationCertificate: { doctypes: ['eu.europa.ec.eudi.pid.1'] },
+      })
+      equal(otherResult.verdict, 'absent')
+    })
+
+    test('Fail verify: required registration certificate does not cover the credential query', async () => {
+      const registrationCertificate = await createEtsiRegistrationCertificate()
+      const request = await resolveAuthorizationRequest(registrationCertificate, {
+        dcql_query: {
+          credentials: [
+            ...pidSdJwtDcqlQuery.credentials,
+            { id: 'mdl', format: 'mso_mdoc', meta: { doctype_value: 'org.iso.18013.5.1.mDL' } },
+          ],
+        },
+        verifier_attestations: undefined,
+        verifier_info: [{ format: 'jwt', data: registrationCertificate, credential_ids: ['pid'] }],
+      })
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: request,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+          requireRegistrationCertificate: { doctypes: ['org.iso.18013.5.1.mDL'] },
+        }),
+        RegistrationCertificateRequiredError
+      )
+    })
+  })
+
+  suite('Time validation', () => {
+    const now = Math.floor(Date.now() / 1000)
+
+    test('Fail verify: expired registration certificate', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate({ exp: now - 3600 }))
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: request,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+        }),
+        (error) => error instanceof InvalidRegistrationCertificateError && error.code === 'expired'
+      )
+    })
+
+    test('Fail verify: registration certificate not yet valid', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate({ nbf: now + 3600 }))
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: request,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+        }),
+        (error) => error instanceof InvalidRegistrationCertificateError && error.code === 'not_yet_valid'
+      )
+    })
+
+    test('Tolerate the allowed clock skew', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate({ iat: now + 30 }))
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      })
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: request,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+          timeContext: { clockSkewInSeconds: 0 },
+        }),
+        (error) => error instanceof InvalidRegistrationCertificateError && error.code === 'issued_in_future'
+      )
+    })
+
+    test('Use the provided clock', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate({ exp: now + 3600 }))
+
+      const results = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        timeContext: { now: () => new Date((now + 7200) * 1000) },
+        throwOnError: false,
+      })
+
+      deepEqual(
+        results.verifierAttestations[0].errors.map((error) => error.code),
+        ['expired']
+      )
+    })
+  })
+
+  suite('Relying party identity', () => {
+    test('Successfully verify: subject with a different attribute order', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate({ sub: 'C=DE,CN=Example Relying Party' })
+      )
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      })
+
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
+    })
+
+    test('Successfully verify: semantic identifier as subject', async () => {
+      const organizationKey = await createKey()
+      const organizationCertificate = await agent.x509.createCertificate({
+        authorityKey: organizationKey,
+        issuer: 'CN=Example Relying Party, O=Example Organization, 2.5.4.97=VATDE-123456789, C=DE',
+        extensions: {
+          subjectAlternativeName: { name: [{ type: 'dns', value: 'rp.example.org' }] },
+        },
+      })
+
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate({ sub: 'VATDE-123456789' }),
+        { dcql_query: pidSdJwtDcqlQuery },
+        { key: organizationKey, certificate: organizationCertificate }
+      )
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        throwOnError: false,
+      })
+
+      deepEqual(result.verifierAttestations[0].errors, [])
+
+      const mismatchRequest = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate({ sub: 'VATDE-987654321' }),
+        { dcql_query: pidSdJwtDcqlQuery },
+        { key: organizationKey, certificate: organizationCertificate }
+      )
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: mismatchRequest,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+        }),
+        (error) => error instanceof RelyingPartyMismatchError && error.code === 'subject_mismatch'
+      )
+    })
+
+    const createIntermediatedRegistrationCertificate = () =>
+      createEtsiRegistrationCertificate({
+        sub: 'C=NL, CN=Intermediated Relying Party',
+        name: 'Intermediated Relying Party',
+        intermediary: { sub: relyingPartyCertificate.subject, name: 'Example Relying Party' },
+      })
+
+    // The intermediary itself is not registered to request credentials
+    const createIntermediaryRegistrationCertificate = (overrides: Record<string, unknown> = {}) =>
+      createEtsiRegistrationCertificate({ credentials: undefined, purpose: undefined, ...overrides })
+
+    test('Successfully verify: request signed by an intermediary', async () => {
+      const intermediatedRegistrationCertificate = await createIntermediatedRegistrationCertificate()
+      const request = await resolveAuthorizationRequest(intermediatedRegistrationCertificate, {
+        dcql_query: pidSdJwtDcqlQuery,
+        verifier_attestations: [
+          { format: 'jwt', data: intermediatedRegistrationCertificate },
+          { format: 'jwt', data: await createIntermediaryRegistrationCertificate() },
+        ],
+      })
+
+      const results = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      })
+
+      equal(results.verdict, 'valid_and_trusted')
+
+      deepEqual(results.verifierAttestations[0].relyingParty, {
+        subject: 'C=NL, CN=Intermediated Relying Party',
+        name: 'Intermediated Relying Party',
+      })
+      deepEqual(results.verifierAttestations[0].intermediary, {
+        subject: relyingPartyCertificate.subject,
+        name: 'Example Relying Party',
+        verifierAttestationIndex: 1,
+      })
+      equal(results.verifierAttestations[1].intermediary, undefined)
+      equal(results.verifierAttestations[1].relyingParty?.subject, relyingPartyCertificate.subject)
+    })
+
+    test('Fail verify: registration certificate of the intermediary is invalid', async () => {
+      const intermediatedRegistrationCertificate = await createIntermediatedRegistrationCertificate()
+      const request = await resolveAuthorizationRequest(intermediatedRegistrationCertificate, {
+        dcql_query: pidSdJwtDcqlQuery,
+        verifier_attestations: [
+          { format: 'jwt', data: intermediatedRegistrationCertificate },
+          {
+            format: 'jwt',
+            data: await createIntermediaryRegistrationCertificate({ exp: Math.floor(Date.now() / 1000) - 3600 }),
+          },
+        ],
+      })
+
+      const results = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        throwOnError: false,
+      })
+
+      // Not linked as the registration certificate of the intermediary, so it is checked as any other
+      deepEqual(results.verifierAttestations[0].intermediary, {
+        subject: relyingPartyCertificate.subject,
+        name: 'Example Relying Party',
+      })
+      deepEqual(
+        results.verifierAttestations[1].errors.map((error) => error.code),
+        ['expired', 'dcql_not_subset']
+      )
+    })
+
+    test('Fail verify: registration certificate of the intermediary does not cover a required credential', async () => {
+      const intermediatedRegistrationCertificate = await createEtsiRegistrationCertificate({
+        sub: 'C=NL, CN=Intermediated Relying Party',
+        intermediary: { sub: relyingPartyCertificate.subject, name: 'Example Relying Party' },
+        exp: Math.floor(Date.now() / 1000) - 3600,
+      })
+      const request = await resolveAuthorizationRequest(intermediatedRegistrationCertificate, {
+        dcql_query: pidSdJwtDcqlQuery,
+        verifier_attestations: [
+          { format: 'jwt', data: intermediatedRegistrationCertificate },
+          { format: 'jwt', data: await createIntermediaryRegistrationCertificate() },
+        ],
+      })
+
+      const results = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: request,
+        trustedCertificates: [registrarCertificate.toString('pem')],
+        requireRegistrationCertificate: { vcts: ['urn:eudi:pid:de:1'] },
+        throwOnError: false,
+      })
+
+      equal(results.verifierAttestations[0].intermediary?.verifierAttestationIndex, 1)
+      deepEqual(results.verifierAttestations[1].errors, [])
+      equal(results.verdict, 'invalid')
+      ok(results.errors[0] instanceof RegistrationCertificateRequiredError)
+    })
+
+    test('Fail verify: intermediary does not match the access certificate', async () => {
+      const request = await resolveAuthorizationRequest(
+        await createEtsiRegistrationCertificate({
+          sub: 'C=NL, CN=Intermediated Relying Party',
+          intermediary: { sub: 'C=DE, CN=Another Intermediary' },
         })
       )
+
+      await rejects(
+        verifyOpenid4VpAuthorizationRequest(agent.context, {
+          resolvedAuthorizationRequest: request,
+          trustedCertificates: [registrarCertificate.toString('pem')],
+        }),
+        (error) => error instanceof RelyingPartyMismatchError && error.code === 'subject_mismatch'
+      )
+    })
+
+    test('Fail verify: certificate does not match the client id', async () => {
+      const request = await resolveAuthorizationRequest(await createEtsiRegistrationCertificate())
+
+      for (const verifier of [
+        { clientIdPrefix: 'x509_san_dns', effectiveClientId: 'x509_san_dns:other.example.org' },
+        {
+          clientIdPrefix: 'x509_hash',
+          effectiveClientId: `x509_hash:${getX509CertificateThumbprint(registrarCertificate)}`,
+        },
+      ] as const) {
+        await rejects(
+          verifyOpenid4VpAuthorizationRequest(agent.context, {
+            resolvedAuthorizationRequest: { ...request, verifier },
+            trustedCertificates: [registrarCertificate.toString('pem')],
+          }),
+          (error) => error instanceof RelyingPartyMismatchError && error.code === 'client_id_mismatch'
+        )
+      }
+
+      const result = await verifyOpenid4VpAuthorizationRequest(agent.context, {
+        resolvedAuthorizationRequest: {
+          ...request,
+          verifier: {
+            clientIdPrefix: 'x509_hash',
+            effectiveClientId: `x509_hash:${getX509CertificateThumbprint(relyingPartyCertificate)}`,
+          },
+        },
+        trustedCertificates: [registrarCertificate.toString('pem')],
+      })
+      equal(result.verifierAttestations[0].isValidAndTrusted, true)
     })
   })
 })
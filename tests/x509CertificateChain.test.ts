@@ -0,0 +1,204 @@
+import { equal, ok, rejects } from 'node:assert'
+import { after, before, beforeEach, suite, test } from 'node:test'
+import { AskarModule } from '@credo-ts/askar'
+import { Agent, Kms, type X509Certificate, type X509CertificateExtensionsOptions, X509KeyUsage } from '@credo-ts/core'
+import { agentDependencies } from '@credo-ts/node'
+import { askar } from '@openwallet-foundation/askar-nodejs'
+import { validateX509CertificateChain, X509CertificateChainError } from '../src'
+
+const modules = {
+  askar: new AskarModule({ askar, store: { id: 'certificate-chain', key: 'certificate-chain-key' } }),
+}
+
+const caExtensions = (pathLength?: number): X509CertificateExtensionsOptions => ({
+  basicConstraints: { ca: true, pathLenConstraint: pathLength },
+  keyUsage: { usages: [X509KeyUsage.KeyCertSign, X509KeyUsage.CrlSign] },
+})
+
+suite('x509 certificate chain', () => {
+  let agent: Agent<typeof modules>
+
+  let rootKey: Kms.PublicJwk
+  let rootCertificate: X509Certificate
+
+  const createKey = async () => {
+    const { publicJwk } = await agent.kms.createKey({ type: { kty: 'EC', crv: 'P-256' } })
+    return Kms.PublicJwk.fromPublicJwk(publicJwk)
+  }
+
+  const createCertificate = async (
+    commonName: string,
+    { key, certificate }: { key: Kms.PublicJwk; certificate: X509Certificate },
+    options: { extensions?: X509CertificateExtensionsOptions; validity?: { notBefore?: Date; notAfter?: Date } } = {}
+  ) => {
+    const subjectKey = await createKey()
+    return {
+      key: subjectKey,
+      certificate: await agent.x509.createCertificate({
+        authorityKey: key,
+        subjectPublicKey: subjectKey,
+        issuer: certificate.subject,
+        subject: { commonName, countryName: 'DE' },
+        ...options,
+      }),
+    }
+  }
+
+  before(async () => {
+    agent = new Agent({
+      config: {},
+      modules,
+      dependencies: agentDependencies,
+    })
+    await agent.initialize()
+
+    rootKey = await createKey()
+    rootCertificate = await agent.x509.createCertificate({
+      authorityKey: rootKey,
+      issuer: { commonName: 'Root CA', countryName: 'DE' },
+      extensions: caExtensions(1),
+    })
+  })
+
+  beforeEach(() => {
+    ok(agent.isInitialized)
+  })
+
+  after(async () => {
+    await agent.shutdown()
+  })
+
+  test('Validate a chain with an intermediate certificate', async () => {
+    const intermediate = await createCertificate(
+      'Intermediate CA',
+      { key: rootKey, certificate: rootCertificate },
+      { extensions: caExtensions(0) }
+    )
+    const leaf = await createCertificate('Leaf', intermediate, {
+      extensions: { keyUsage: { usages: [X509KeyUsage.DigitalSignature] } },
+    })
+
+    const chain = await validateX509CertificateChain(agent.context, {
+      certificateChain: [leaf.certificate.toString('base64'), intermediate.certificate.toString('base64')],
+      trustedCertificates: [rootCertificate.toString('pem')],
+    })
+
+    equal(chain.length, 3)
+    ok(chain[0].equal(rootCertificate))
+    ok(chain[2].equal(leaf.certificate))
+  })
+
+  test('Validate a directly trusted leaf certificate', async () => {
+    const leaf = await createCertificate('Leaf', { key: rootKey, certificate: rootCertificate })
+
+    const chain = await validateX509CertificateChain(agent.context, {
+      certificateChain: [leaf.certificate.toString('base64')],
+      trustedCertificates: [leaf.certificate.toString('base64')],
+    })
+
+    equal(chain.length, 1)
+  })
+
+  test('Fail validating a chain without a trusted certificate', async () => {
+    const leaf = await createCertificate('Leaf', { key: rootKey, certificate: rootCertificate })
+
+    await rejects(
+      validateX509CertificateChain(agent.context, {
+        certificateChain: [leaf.certificate.toString('base64')],
+        trustedCertificates: [],
+      }),
+      X509CertificateChainError
+    )
+  })
+
+  test('Fail validating a chain with an expired certificate', async () => {
+    const leaf = await createCertificate(
+      'Leaf',
+      { key: rootKey, certificate: rootCertificate },
+      { validity: { notBefore: new Date(Date.now() - 120_000), notAfter: new Date(Date.now() - 60_000) } }
+    )
+
+    await rejects(
+      validateX509CertificateChain(agent.context, {
+        certificateChain: [leaf.certificate.toString('base64')],
+        trustedCertificates: [rootCertificate.toString('pem')],
+      }),
+      X509CertificateChainError
+    )
+  })
+
+  test('Fail validating a chain issued by a certificate that is not a CA', async () => {
+    const intermediate = await createCertificate('Intermediate', { key: rootKey, certificate: rootCertificate })
+    const leaf = await createCertificate('Leaf', intermediate)
+
+    await rejects(
+      validateX509CertificateChain(agent.context, {
+        certificateChain: [leaf.certificate.toString('base64'), intermediate.certificate.toString('base64')],
+        trustedCertificates: [rootCertificate.toString('pem')],
+      }),
+      /is not a CA certificate/
+    )
+  })
+
+  test('Fail validating a chain issued by a CA without the keyCertSign key usage', async () => {
+    const intermediate = await createCertificate(
+      'Intermediate CA',
+      { key: rootKey, certificate: rootCertificate },
+      {
+        extensions: {
+          basicConstraints: { ca: true },
+          keyUsage: { usages: [X509KeyUsage.DigitalSignature] },
+        },
+      }
+    )
+    const leaf = await createCertificate('Leaf', intermediate)
+
+    await rejects(
+      validateX509CertificateChain(agent.context, {
+        certificateChain: [leaf.certificate.toString('base64'), intermediate.certificate.toString('base64')],
+        trustedCertificates: [rootCertificate.toString('pem')],
+      }),
+      /keyCertSign/
+    )
+  })
+
+  test('Fail validating a chain that exceeds the path length constraint', async () => {
+    const firstIntermediate = await createCertificate(
+      'First Intermediate CA',
+      { key: rootKey, certificate: rootCertificate },
+      { extensions: caExtensions(0) }
+    )
+    const secondIntermediate = await createCertificate('Second Intermediate CA', firstIntermediate, {
+      extensions: caExtensions(),
+    })
+    const leaf = await createCertificate('Leaf', secondIntermediate)
+
+    await rejects(
+      validateX509CertificateChain(agent.context, {
+        certificateChain: [
+          leaf.certificate.toString('base64'),
+          secondIntermediate.certificate.toString('base64'),
+          firstIntermediate.certificate.toString('base64'),
+        ],
+        trustedCertificates: [rootCertificate.toString('pem')],
+      }),
+      /path length/
+    )
+  })
+
+  test('Fail validating a leaf certificate without the digitalSignature key usage', async () => {
+    const leaf = await createCertificate(
+      'Leaf',
+      { key: rootKey, certificate: rootCertificate },
+      { extensions: { keyUsage: { usages: [X509KeyUsage.KeyAgreement] } } }
+    )
+
+    await rejects(
+      validateX509CertificateChain(agent.context, {
+        certificateChain: [leaf.certificate.toString('base64')],
+        trustedCertificates: [rootCertificate.toString('pem')],
+      }),
+      /digitalSignature/
+    )
+  })
+})
@@ -0,0 +1,39 @@
+import { equal } from 'node:assert'
+import { suite, test } from 'node:test'
+import { createZPaymentPayload, zPaymentPayload } from '../src'
+
+const payment = {
+  transaction_id: '8D8AC610-566D-4EF0-9C22-186B2A5ED793',
+  payee: { name: 'Merchant', id: 'merchant-1' },
+  currency: 'EUR',
+  amount: 23.5,
+}
+
+suite('ts12 payment payload', () => {
+  test('Validate the execution date against the current time', () => {
+    equal(zPaymentPayload.safeParse({ ...payment, execution_date: '2999-01-01T00:00:00Z' }).success, true)
+    equal(zPaymentPayload.safeParse({ ...payment, execution_date: '2020-01-01T00:00:00Z' }).success, false)
+  })
+
+  test('Validate the execution date against the provided clock', () => {
+    const zPaymentPayloadIn2019 = createZPaymentPayload({ now: () => new Date('2019-12-31T00:00:00Z') })
+    equal(zPaymentPayloadIn2019.safeParse({ ...payment, execution_date: '2020-01-01T00:00:00Z' }).success, true)
+  })
+
+  test('Tolerate the allowed clock skew for the execution date', () => {
+    const now = new Date('2025-06-01T12:00:00Z')
+    const executionDate = '2025-06-01T11:59:30Z'
+
+    equal(
+      createZPaymentPayload({ now: () => now }).safeParse({ ...payment, execution_date: executionDate }).success,
+      true
+    )
+    equal(
+      createZPaymentPayload({ now: () => now, clockSkewInSeconds: 0 }).safeParse({
+        ...payment,
+        execution_date: executionDate,
+      }).success,
+      false
+    )
+  })
+})